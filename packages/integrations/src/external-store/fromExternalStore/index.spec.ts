@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from "vitest";
+import { observe, type Change } from "@legendapp/state";
+import { configureStore, createSlice, type PayloadAction } from "@reduxjs/toolkit";
+import { createStore } from "zustand/vanilla";
+import { fromExternalStore, fromRedux, fromZustand } from ".";
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+const createTodoStore = () => {
+  const slice = createSlice({
+    name: "todos",
+    initialState: {
+      items: [
+        { id: 1, title: "Write", done: false },
+        { id: 2, title: "Test", done: false },
+      ] as Todo[],
+      filter: "all",
+    },
+    reducers: {
+      toggle: (state, action: PayloadAction<number>) => {
+        const todo = state.items.find((item) => item.id === action.payload);
+        if (todo) todo.done = !todo.done;
+      },
+      setFilter: (state, action: PayloadAction<string>) => {
+        state.filter = action.payload;
+      },
+    },
+  });
+  return {
+    store: configureStore({ reducer: slice.reducer }),
+    actions: slice.actions,
+  };
+};
+
+describe("fromExternalStore", () => {
+  it("should mirror the snapshot and its changes", () => {
+    let snapshot = { count: 0 };
+    const listeners = new Set<() => void>();
+    const count$ = fromExternalStore(
+      (onStoreChange) => {
+        listeners.add(onStoreChange);
+        return () => listeners.delete(onStoreChange);
+      },
+      () => snapshot
+    );
+
+    expect(count$.count.get()).toBe(0);
+
+    snapshot = { count: 1 };
+    listeners.forEach((listener) => listener());
+
+    expect(count$.count.get()).toBe(1);
+  });
+
+  it("should call set on writes and revert writes the store does not take", () => {
+    const snapshot = { count: 0 };
+    const set = vi.fn(({ value, changes }: { value: { count: number }; changes: Change[] }) => [
+      value.count,
+      changes.map((change) => change.path),
+    ]);
+    const count$ = fromExternalStore(
+      () => () => {},
+      () => snapshot,
+      { set }
+    );
+
+    count$.count.set(5);
+
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(set).toHaveReturnedWith([5, [["count"]]]);
+    expect(count$.count.get()).toBe(0);
+    expect(snapshot.count).toBe(0);
+  });
+  it("should unsubscribe from the store once nothing listens", async () => {
+    let snapshot = { count: 0 };
+    const listeners = new Set<() => void>();
+    const count$ = fromExternalStore(
+      (onStoreChange) => {
+        listeners.add(onStoreChange);
+        return () => listeners.delete(onStoreChange);
+      },
+      () => snapshot
+    );
+
+    const dispose = observe(() => count$.get());
+    expect(listeners.size).toBe(1);
+
+    dispose();
+    await vi.waitFor(() => expect(listeners.size).toBe(0));
+
+    snapshot = { count: 1 };
+    const onCount = vi.fn();
+    observe(() => onCount(count$.get().count));
+    await vi.waitFor(() => expect(listeners.size).toBe(1));
+    expect(onCount).toHaveBeenLastCalledWith(1);
+  });
+});
+
+describe("fromRedux", () => {
+  it("should only notify observers of changed slices", () => {
+    const { store, actions } = createTodoStore();
+    const state$ = fromRedux(store);
+    const onFirst = vi.fn();
+    const onSecond = vi.fn();
+    observe(() => onFirst(state$.items[0].done.get()));
+    observe(() => onSecond(state$.items[1].done.get()));
+    onFirst.mockClear();
+    onSecond.mockClear();
+
+    store.dispatch(actions.toggle(2));
+
+    expect(state$.items[1].done.get()).toBe(true);
+    expect(onSecond).toHaveBeenCalledWith(true);
+    expect(onFirst).not.toHaveBeenCalled();
+  });
+
+  it("should not mutate the frozen store state", () => {
+    const { store } = createTodoStore();
+    const state$ = fromRedux(store);
+
+    expect(() => state$.items[0].title.set("Changed")).not.toThrow();
+    expect(store.getState().items[0].title).toBe("Write");
+  });
+
+  it("should dispatch the action returned by toAction", () => {
+    const { store, actions } = createTodoStore();
+    const state$ = fromRedux(store, {
+      toAction: ({ value, changes }) =>
+        changes[0]?.path[0] === "filter" ? actions.setFilter(value.filter) : undefined,
+    });
+
+    state$.filter.set("done");
+    expect(store.getState().filter).toBe("done");
+    expect(state$.filter.get()).toBe("done");
+
+    state$.items[0].done.set(true);
+    expect(store.getState().items[0].done).toBe(false);
+    expect(state$.items[0].done.get()).toBe(false);
+  });
+});
+
+describe("fromZustand", () => {
+  const createBearStore = () =>
+    createStore<{ bears: number; honey: { jars: number }; addBear: () => void }>()((set) => ({
+      bears: 0,
+      honey: { jars: 2 },
+      addBear: () => set((state) => ({ bears: state.bears + 1 })),
+    }));
+
+  it("should mirror the store state", () => {
+    const store = createBearStore();
+    const state$ = fromZustand(store);
+    const onHoney = vi.fn();
+    observe(() => onHoney(state$.honey.jars.get()));
+    onHoney.mockClear();
+
+    store.getState().addBear();
+
+    expect(state$.bears.get()).toBe(1);
+    expect(onHoney).not.toHaveBeenCalled();
+  });
+
+  it("should merge writes into the store state with writeBack", () => {
+    const store = createBearStore();
+    const state$ = fromZustand(store, { writeBack: true });
+
+    state$.honey.jars.set(5);
+
+    expect(store.getState().honey.jars).toBe(5);
+    expect(store.getState().bears).toBe(0);
+    store.getState().addBear();
+    expect(state$.bears.get()).toBe(1);
+  });
+
+  it("should ignore writes without writeBack", () => {
+    const store = createBearStore();
+    const state$ = fromZustand(store);
+
+    state$.bears.set(9);
+
+    expect(store.getState().bears).toBe(0);
+  });
+});
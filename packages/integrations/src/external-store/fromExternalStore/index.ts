@@ -0,0 +1,151 @@
+import { batch, observable, type Change, type Observable } from "@legendapp/state";
+import { synced } from "@legendapp/state/sync";
+import { clonePlainData, isEqualData, reconcileData } from "../../shared/utils";
+
+export interface FromExternalStoreOptions<T> {
+  /**
+   * Write-back: called with the new value and the changed paths when the Observable is written
+   * to. Afterwards the Observable is diffed against the store's snapshot again, so writes the
+   * store does not take are reverted.
+   */
+  set?: (params: { value: T; changes: Change[] }) => void;
+}
+
+/** The part of a Redux store `fromRedux` uses */
+export interface ReduxStoreLike<S, A> {
+  getState(): S;
+  subscribe(listener: () => void): () => void;
+  dispatch(action: A): unknown;
+}
+
+export interface FromReduxOptions<S, A> {
+  /** Maps a write to the Observable to an action to dispatch; `undefined` dispatches nothing */
+  toAction?: (params: { value: S; changes: Change[] }) => A | undefined;
+}
+
+/** The part of a Zustand store (`StoreApi`) `fromZustand` uses */
+export interface ZustandStoreLike<T> {
+  getState(): T;
+  setState(partial: Partial<T>): void;
+  subscribe(listener: (state: T, prevState: T) => void): () => void;
+}
+
+export interface FromZustandOptions {
+  /** Writes to the Observable are merged into the store's state. Default: `false` */
+  writeBack?: boolean;
+}
+
+/** Zustand state without its actions */
+export type ZustandData<T> = {
+  [K in keyof T as T[K] extends (...args: never[]) => unknown ? never : K]: T[K];
+};
+
+/**
+ * Creates a Legend-State Observable mirroring an external store, from the same
+ * `subscribe`/`getSnapshot` pair as React's `useSyncExternalStore`. Each store change is diffed
+ * into the Observable, so only observers of the changed slices are notified.
+ *
+ * The store is subscribed when the Observable is first read. Once nothing listens to the
+ * Observable it is unsubscribed, and subscribed again (catching up) when a listener is added.
+ * A write-back (`set`) listens to the Observable itself, so with one the store stays
+ * subscribed. Snapshots are copied, so frozen state (Redux, Immer) is never mutated.
+ *
+ * @example
+ * ```ts
+ * const settings$ = fromExternalStore(settingsStore.subscribe, settingsStore.getSnapshot)
+ * ```
+ */
+export function fromExternalStore<T>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => T,
+  options: FromExternalStoreOptions<T> = {}
+): Observable<T> {
+  const sync = () => batch(() => reconcileData(store$ as Observable<unknown>, getSnapshot()));
+  const store$ = observable(
+    synced<T>({
+      initial: clonePlainData(getSnapshot()),
+      subscribe: () => {
+        // the store may have changed while unsubscribed
+        sync();
+        return subscribe(sync);
+      },
+    })
+  ) as Observable<T>;
+
+  const { set } = options;
+  if (set) {
+    store$.onChange(({ value, changes }) => {
+      // Changes matching the store came from it (or reverted a write): nothing to write back
+      if (isEqualData(value, getSnapshot())) return;
+      set({ value, changes });
+      sync();
+    });
+  }
+
+  return store$;
+}
+
+/**
+ * Creates a Legend-State Observable mirroring the state of a Redux store, see
+ * `fromExternalStore`. With `toAction`, writes to the Observable dispatch the returned action.
+ *
+ * @example
+ * ```ts
+ * const state$ = fromRedux(store, {
+ *   toAction: ({ value, changes }) =>
+ *     changes[0]?.path[0] === "filter" ? setFilter(value.filter) : undefined,
+ * })
+ * ```
+ */
+export function fromRedux<S, A>(
+  store: ReduxStoreLike<S, A>,
+  options: FromReduxOptions<S, A> = {}
+): Observable<S> {
+  const { toAction } = options;
+  return fromExternalStore(store.subscribe, store.getState, {
+    set: toAction
+      ? (params) => {
+          const action = toAction(params);
+          if (action !== undefined) store.dispatch(action);
+        }
+      : undefined,
+  });
+}
+
+/**
+ * Creates a Legend-State Observable mirroring the state of a Zustand store, see
+ * `fromExternalStore`. Actions (function values) are left out: Legend-State would treat them as
+ * computeds. With `writeBack`, writes to the Observable are merged into the store's state.
+ *
+ * @example
+ * ```ts
+ * const bears$ = fromZustand(useBearStore, { writeBack: true })
+ * bears$.count.set(3)
+ * ```
+ */
+export function fromZustand<T>(
+  store: ZustandStoreLike<T>,
+  options: FromZustandOptions = {}
+): Observable<ZustandData<T>> {
+  // Zustand replaces the state object on every change, so the stripped copy is recomputed only then
+  let state = store.getState();
+  let data = toZustandData(state);
+  const getSnapshot = () => {
+    if (store.getState() !== state) {
+      state = store.getState();
+      data = toZustandData(state);
+    }
+    return data;
+  };
+  return fromExternalStore((onStoreChange) => store.subscribe(onStoreChange), getSnapshot, {
+    // copied: the store must not hold the object the Observable mutates in place
+    set: options.writeBack
+      ? ({ value }) => store.setState(clonePlainData(value) as unknown as Partial<T>)
+      : undefined,
+  });
+}
+
+const toZustandData = <T>(state: T): ZustandData<T> =>
+  Object.fromEntries(
+    Object.entries(state as object).filter(([, value]) => typeof value !== "function")
+  ) as ZustandData<T>;
@@ -0,0 +1,3 @@
+export { useFloating } from "./useFloating";
+
+export type { UseFloatingOptions, UseFloatingReturn } from "./useFloating";
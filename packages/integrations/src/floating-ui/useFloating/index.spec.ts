@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable, ObservableHint, type OpaqueObject } from "@legendapp/state";
+import { offset, type Middleware } from "@floating-ui/dom";
+import { useFloating, type UseFloatingOptions } from ".";
+
+// Reference at (100, 50) sized 40×20; the floating element measures 0×0 in jsdom
+const referenceRect = { x: 100, y: 50, width: 40, height: 20 };
+const toDOMRect = ({ x, y, width, height }: typeof referenceRect) =>
+  ({ x, y, width, height, top: y, left: x, right: x + width, bottom: y + height }) as DOMRect;
+
+// ResizeObserver mock
+class ResizeObserverMock {
+  static instances: ResizeObserverMock[] = [];
+  callback: ResizeObserverCallback;
+  targets: Element[] = [];
+
+  constructor(callback: ResizeObserverCallback) {
+    this.callback = callback;
+    ResizeObserverMock.instances.push(this);
+  }
+  observe(target: Element) {
+    this.targets.push(target);
+  }
+  unobserve() {}
+  disconnect() {
+    this.targets = [];
+  }
+  static trigger(target: Element) {
+    for (const instance of ResizeObserverMock.instances) {
+      if (instance.targets.includes(target)) {
+        instance.callback([{ target } as ResizeObserverEntry], instance as never);
+      }
+    }
+  }
+}
+
+beforeEach(() => {
+  ResizeObserverMock.instances = [];
+  vi.stubGlobal("ResizeObserver", ResizeObserverMock);
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/** Mounts a reference and a floating element and positions them with the hook */
+const renderFloating = (options?: UseFloatingOptions) => {
+  const reference = document.createElement("button");
+  const floating = document.createElement("div");
+  document.body.append(reference, floating);
+  vi.spyOn(reference, "getBoundingClientRect").mockImplementation(() => toDOMRect(referenceRect));
+  const reference$ = observable(ObservableHint.opaque<Element>(reference));
+  const floating$ = observable(ObservableHint.opaque<Element>(floating));
+  const view = renderHook((opts?: UseFloatingOptions) => useFloating(reference$, floating$, opts), {
+    initialProps: options,
+  });
+  return { ...view, reference };
+};
+
+describe("useFloating", () => {
+  beforeEach(() => {
+    referenceRect.x = 100;
+    referenceRect.y = 50;
+  });
+
+  it("should position below the reference by default", async () => {
+    const { result } = renderFloating();
+
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+    expect(result.current.x$.get()).toBe(120);
+    expect(result.current.y$.get()).toBe(70);
+    expect(result.current.placement$.get()).toBe("bottom");
+    expect(result.current.strategy$.get()).toBe("absolute");
+  });
+
+  it("should apply middleware and expose its data", async () => {
+    const custom: Middleware = { name: "custom", fn: () => ({ data: { seen: true } }) };
+    const { result } = renderFloating({ middleware: [offset(8), false, custom] });
+
+    await waitFor(() => expect(result.current.y$.get()).toBe(78));
+    expect(result.current.middlewareData$.custom.get()).toEqual({ seen: true });
+  });
+
+  it("should track an Observable placement", async () => {
+    const placement$ = observable<"bottom" | "right">("bottom");
+    const { result } = renderFloating({ placement: placement$ });
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+
+    act(() => placement$.set("right"));
+
+    await waitFor(() => expect(result.current.placement$.get()).toBe("right"));
+    expect(result.current.x$.get()).toBe(140);
+    expect(result.current.y$.get()).toBe(60);
+  });
+
+  it("should apply a plain placement passed on a later render", async () => {
+    const { result, rerender } = renderFloating({ placement: "bottom" });
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+
+    rerender({ placement: "top" });
+
+    await waitFor(() => expect(result.current.placement$.get()).toBe("top"));
+    expect(result.current.y$.get()).toBe(50);
+  });
+
+  it("should update on scroll", async () => {
+    const { result } = renderFloating();
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+
+    referenceRect.y = 10;
+    act(() => {
+      document.body.dispatchEvent(new Event("scroll"));
+    });
+
+    await waitFor(() => expect(result.current.y$.get()).toBe(30));
+  });
+
+  it("should update on window resize", async () => {
+    const { result } = renderFloating();
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+
+    referenceRect.x = 0;
+    act(() => {
+      window.dispatchEvent(new Event("resize"));
+    });
+
+    await waitFor(() => expect(result.current.x$.get()).toBe(20));
+  });
+
+  it("should update when the reference resizes", async () => {
+    const { result, reference } = renderFloating();
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+
+    referenceRect.x = 200;
+    act(() => ResizeObserverMock.trigger(reference));
+
+    await waitFor(() => expect(result.current.x$.get()).toBe(220));
+  });
+
+  it("should not position without both elements", async () => {
+    const reference = document.createElement("button");
+    const floating = document.createElement("div");
+    document.body.append(reference, floating);
+    const reference$ = observable(ObservableHint.opaque<Element>(reference));
+    const floating$ = observable<OpaqueObject<Element> | null>(null);
+    const { result } = renderHook(() => useFloating(reference$, floating$));
+    await act(async () => {});
+    expect(result.current.isPositioned$.get()).toBe(false);
+
+    act(() => floating$.set(ObservableHint.opaque(floating)));
+
+    await waitFor(() => expect(result.current.isPositioned$.get()).toBe(true));
+  });
+});
@@ -0,0 +1,160 @@
+"use client";
+import { batch, type Observable } from "@legendapp/state";
+import { useMount, useObservable, useObserve, useUnmount } from "@legendapp/state/react";
+import {
+  computePosition,
+  type Middleware,
+  type MiddlewareData,
+  type Placement,
+  type Strategy,
+} from "@floating-ui/dom";
+import { useMemo, useRef } from "react";
+import {
+  get,
+  getElement,
+  peek,
+  peekElement,
+  useEventListener,
+  useResizeObserver,
+  type MaybeElement,
+  type MaybeObservable,
+} from "@usels/core";
+
+export interface UseFloatingOptions {
+  /** Where to place the floating element. Default: `"bottom"` */
+  placement?: MaybeObservable<Placement>;
+  /** CSS `position` the floating element uses. Default: `"absolute"` */
+  strategy?: MaybeObservable<Strategy>;
+  /** Floating UI middleware, e.g. `[offset(8), flip(), shift()]`; falsy entries are skipped */
+  middleware?: MaybeObservable<Array<Middleware | null | undefined | false>>;
+}
+
+export interface UseFloatingReturn {
+  /** Left offset of the floating element in px */
+  x$: Observable<number>;
+  /** Top offset of the floating element in px */
+  y$: Observable<number>;
+  /** Final placement, which middleware such as `flip` may change */
+  placement$: Observable<Placement>;
+  strategy$: Observable<Strategy>;
+  /** Data of the middleware by name, e.g. `middlewareData$.arrow` */
+  middlewareData$: Observable<MiddlewareData>;
+  /** `true` once a position was computed for the current elements */
+  isPositioned$: Observable<boolean>;
+  /** Computes the position again */
+  update: () => void;
+}
+
+const win = typeof window === "undefined" ? null : window;
+
+/**
+ * Custom hook that positions a floating element (tooltip, popover, menu) next to a reference
+ * element with Floating UI's `computePosition`. The position is computed when both elements are
+ * mounted and again when they resize (`useResizeObserver`), on window resize, and on scroll of
+ * the window or any scroll container (`useEventListener`).
+ *
+ * Elements are `MaybeElement`s; Observable options are tracked, and a plain option takes effect
+ * when another value is passed on a render.
+ *
+ * @example
+ * ```tsx
+ * const reference$ = useRef$<HTMLButtonElement>()
+ * const floating$ = useRef$<HTMLDivElement>()
+ * const { x$, y$, strategy$ } = useFloating(reference$, floating$, {
+ *   placement: "top",
+ *   middleware: [offset(8), flip()],
+ * })
+ * ```
+ */
+export function useFloating(
+  reference: MaybeElement,
+  floating: MaybeElement,
+  options: UseFloatingOptions = {}
+): UseFloatingReturn {
+  const { placement = "bottom", strategy = "absolute", middleware } = options;
+
+  const position$ = useObservable({
+    x: 0,
+    y: 0,
+    placement: peek(placement),
+    strategy: peek(strategy),
+    middlewareData: {} as MiddlewareData,
+    isPositioned: false,
+  });
+
+  // Observable mount flag — lets useObserve compute once the elements are in the DOM.
+  const mounted$ = useObservable(false);
+  // Latest options for update(), and the id of the latest computation: older results are dropped
+  const optionsRef = useRef({ placement, strategy, middleware });
+  optionsRef.current = { placement, strategy, middleware };
+  const latestRef = useRef(0);
+
+  const update = () => {
+    const referenceEl = peekElement(reference) as Element | null;
+    const floatingEl = peekElement(floating) as HTMLElement | null;
+    const id = ++latestRef.current;
+    if (!mounted$.peek() || !referenceEl || !floatingEl) {
+      position$.isPositioned.set(false);
+      return;
+    }
+    const current = optionsRef.current;
+    void computePosition(referenceEl, floatingEl, {
+      placement: peek(current.placement),
+      strategy: peek(current.strategy),
+      middleware: peek(current.middleware)?.filter((item): item is Middleware => !!item),
+    }).then((data) => {
+      if (id !== latestRef.current || !mounted$.peek()) return;
+      batch(() => {
+        position$.assign({
+          x: data.x,
+          y: data.y,
+          placement: data.placement,
+          strategy: data.strategy,
+          isPositioned: true,
+        });
+        position$.middlewareData.set(data.middlewareData);
+      });
+    });
+  };
+
+  // Elements and Observable options are tracked; plain options re-run when another value is passed
+  const optionsKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [placement, strategy, middleware]
+  );
+  useObserve(() => {
+    if (!mounted$.get()) return;
+    getElement(reference);
+    getElement(floating);
+    get(placement);
+    get(strategy);
+    get(middleware);
+    update();
+  }, [optionsKey]);
+
+  useResizeObserver(reference, update);
+  useResizeObserver(floating, update);
+  // Capture: scroll events of any scroll container, not only the window
+  useEventListener(win, "scroll", update, { capture: true, passive: true });
+  useEventListener(win, "resize", update, { passive: true });
+
+  // useMount/useUnmount manage mount state only — no setup logic here.
+  useMount(() => {
+    mounted$.set(true);
+  });
+  useUnmount(() => {
+    mounted$.set(false);
+    position$.isPositioned.set(false);
+  });
+
+  return {
+    x$: position$.x,
+    y$: position$.y,
+    placement$: position$.placement,
+    strategy$: position$.strategy,
+    middlewareData$: position$.middlewareData,
+    isPositioned$: position$.isPositioned,
+    update,
+  };
+}
@@ -1,14 +1,85 @@
 export { QueryClientProvider, QueryClient } from "./tanstack-query/QueryClientProvider";
+export { HydrationBoundary } from "./tanstack-query/HydrationBoundary";
+export { PersistQueryClientProvider } from "./tanstack-query/PersistQueryClientProvider";
+export { persistQueryClient, ObservablePersistMemory } from "./tanstack-query/persistQueryClient";
+export { useIsRestoring } from "./tanstack-query/isRestoring";
+export { dehydrate, hydrate } from "./tanstack-query/hydration";
 export { useQueryClient } from "./tanstack-query/useQueryClient";
+export {
+  QueryErrorResetBoundary,
+  useQueryErrorResetBoundary,
+} from "./tanstack-query/QueryErrorResetBoundary";
 export { useQuery } from "./tanstack-query/useQuery";
+export { useSuspenseQuery } from "./tanstack-query/useSuspenseQuery";
+export { useQueries } from "./tanstack-query/useQueries";
 export { useMutation } from "./tanstack-query/useMutation";
-export { useInfiniteQuery } from "./tanstack-query/useInfiniteQuery";
+export { useMutationState } from "./tanstack-query/useMutationState";
+export { useIsFetching } from "./tanstack-query/useIsFetching";
+export { useIsMutating } from "./tanstack-query/useIsMutating";
+export { useInvalidateOnChange } from "./tanstack-query/useInvalidateOnChange";
+export { usePrefetchQuery, usePrefetchInfiniteQuery } from "./tanstack-query/usePrefetchQuery";
+export { queryOptions, infiniteQueryOptions, ensureQueryData } from "./tanstack-query/queryOptions";
+export { useInfiniteQuery, useSuspenseInfiniteQuery } from "./tanstack-query/useInfiniteQuery";
+export { useForm } from "./standard-schema/useForm";
+export { fromExternalStore, fromRedux, fromZustand } from "./external-store/fromExternalStore";
+export { useIndexedDB } from "./indexeddb/useIndexedDB";
 
-export type { UseQueryOptions, QueryState } from "./tanstack-query/useQuery";
+export type { HydrationBoundaryProps } from "./tanstack-query/HydrationBoundary";
+
+export type { PersistQueryClientProviderProps } from "./tanstack-query/PersistQueryClientProvider";
+
+export type {
+  PersistedClient,
+  PersistQueryClientOptions,
+  QueryClientPersister,
+} from "./tanstack-query/persistQueryClient";
+
+export type { UseQueryOptions, QueryState, DefinedQueryState } from "./tanstack-query/useQuery";
+
+export type {
+  QueryErrorResetBoundaryProps,
+  QueryErrorResetBoundaryValue,
+} from "./tanstack-query/QueryErrorResetBoundary";
+
+export type {
+  UseSuspenseQueryOptions,
+  SuspenseQueryState,
+} from "./tanstack-query/useSuspenseQuery";
+
+export type {
+  UseQueriesOptions,
+  UseQueriesEntry,
+  QueriesEntryState,
+} from "./tanstack-query/useQueries";
 
 export type { UseMutationOptions, MutationState } from "./tanstack-query/useMutation";
 
+export type { UseMutationStateOptions } from "./tanstack-query/useMutationState";
+
+export type { UseInvalidateOnChangeOptions } from "./tanstack-query/useInvalidateOnChange";
+
+export type { UsePrefetchQueryOptions } from "./tanstack-query/usePrefetchQuery";
+
 export type {
   UseInfiniteQueryOptions,
   InfiniteQueryState,
+  UseSuspenseInfiniteQueryOptions,
+  SuspenseInfiniteQueryState,
 } from "./tanstack-query/useInfiniteQuery";
+
+export type { UseFormReturn, FormErrors } from "./standard-schema/useForm";
+
+export type {
+  FromExternalStoreOptions,
+  ReduxStoreLike,
+  FromReduxOptions,
+  ZustandStoreLike,
+  FromZustandOptions,
+  ZustandData,
+} from "./external-store/fromExternalStore";
+
+export type {
+  UseIndexedDBOptions,
+  UseIndexedDBReturn,
+  IndexedDBUpgradeParams,
+} from "./indexeddb/useIndexedDB";
@@ -0,0 +1,222 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useIndexedDB } from ".";
+
+interface Draft {
+  id?: number;
+  title: string;
+}
+
+let dbCount = 0;
+const uniqueName = () => `test-db-${++dbCount}`;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/** Creates a database with a `drafts` store holding the given records */
+const seed = async (name: string, records: [IDBValidKey, Draft][], version = 1) => {
+  const open = indexedDB.open(name, version);
+  open.onupgradeneeded = () => open.result.createObjectStore("drafts");
+  const db = await request(open);
+  const transaction = db.transaction("drafts", "readwrite");
+  records.forEach(([key, record]) => transaction.objectStore("drafts").put(record, key));
+  await new Promise((resolve) => (transaction.oncomplete = resolve));
+  db.close();
+};
+
+/** Reads the records of a store, keys included, through a separate connection */
+const readStore = async (name: string, store = "drafts") => {
+  const db = await request(indexedDB.open(name));
+  const objectStore = db.transaction(store, "readonly").objectStore(store);
+  const [keys, values] = await Promise.all([
+    request(objectStore.getAllKeys()),
+    request(objectStore.getAll()),
+  ]);
+  db.close();
+  return keys.map((key, index) => [key, values[index]]);
+};
+
+describe("useIndexedDB", () => {
+  it("should load the records when data$ is first read", async () => {
+    const name = uniqueName();
+    await seed(name, [["a", { title: "First" }]]);
+    const open = vi.spyOn(indexedDB, "open");
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+
+    expect(open).not.toHaveBeenCalled();
+    expect(result.current.data$.get()).toEqual({});
+
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+    expect(result.current.data$.get()).toEqual({ a: { title: "First" } });
+    open.mockRestore();
+  });
+
+  it("should create the database and the store", async () => {
+    const name = uniqueName();
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+
+    result.current.data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+
+    expect(result.current.data$.get()).toEqual({});
+    expect(await readStore(name)).toEqual([]);
+  });
+
+  it("should save writes of the same tick in one transaction", async () => {
+    const name = uniqueName();
+    await seed(name, [["a", { title: "First" }]]);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+    const { data$ } = result.current;
+    data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+    const transaction = vi.spyOn(IDBDatabase.prototype, "transaction");
+
+    data$.a.title.set("Changed");
+    data$.b.set({ title: "Second" });
+
+    await waitFor(async () =>
+      expect(await readStore(name)).toEqual([
+        ["a", { title: "Changed" }],
+        ["b", { title: "Second" }],
+      ])
+    );
+    const writes = transaction.mock.calls.filter(([, mode]) => mode === "readwrite");
+    expect(writes).toHaveLength(1);
+    transaction.mockRestore();
+  });
+
+  it("should delete records", async () => {
+    const name = uniqueName();
+    await seed(name, [
+      ["a", { title: "First" }],
+      ["b", { title: "Second" }],
+    ]);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+    result.current.data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+
+    result.current.data$.a.delete();
+
+    await waitFor(async () => expect(await readStore(name)).toEqual([["b", { title: "Second" }]]));
+  });
+
+  it("should replace all records when data$ is set", async () => {
+    const name = uniqueName();
+    await seed(name, [
+      [1, { title: "First" }],
+      [2, { title: "Second" }],
+    ]);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+    result.current.data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+
+    result.current.data$.set({ 2: { title: "Kept" }, new: { title: "Added" } });
+
+    await waitFor(async () =>
+      expect(await readStore(name)).toEqual([
+        [2, { title: "Kept" }],
+        ["new", { title: "Added" }],
+      ])
+    );
+  });
+
+  it("should write back number keys as numbers", async () => {
+    const name = uniqueName();
+    await seed(name, [[1, { title: "First" }]]);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "drafts" }));
+    result.current.data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+
+    result.current.data$[1].title.set("Changed");
+
+    await waitFor(async () => expect(await readStore(name)).toEqual([[1, { title: "Changed" }]]));
+  });
+
+  it("should run the upgrade callback when the version is raised", async () => {
+    const name = uniqueName();
+    await seed(name, [["a", { title: "first" }]]);
+    const upgrade = vi.fn((db: IDBDatabase, { oldVersion, transaction }) => {
+      if (oldVersion < 2) {
+        // migrate: capitalise titles and move them into a store with in-line keys
+        const drafts = db.createObjectStore("drafts-v2", { keyPath: "id", autoIncrement: true });
+        const cursor = transaction.objectStore("drafts").openCursor();
+        cursor.onsuccess = () => {
+          if (!cursor.result) return;
+          const draft = cursor.result.value as Draft;
+          drafts.put({ title: draft.title.toUpperCase() });
+          cursor.result.continue();
+        };
+      }
+    });
+    const { result } = renderHook(() =>
+      useIndexedDB<Draft>(name, { store: "drafts-v2", version: 2, upgrade })
+    );
+    result.current.data$.get();
+    await waitFor(() => expect(result.current.isLoaded$.get()).toBe(true));
+
+    expect(upgrade).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ oldVersion: 1, newVersion: 2 })
+    );
+    expect(result.current.data$.get()).toEqual({ 1: { id: 1, title: "FIRST" } });
+
+    result.current.data$[2].set({ id: 2, title: "Second" });
+    await waitFor(async () =>
+      expect(await readStore(name, "drafts-v2")).toEqual([
+        [1, { id: 1, title: "FIRST" }],
+        [2, { id: 2, title: "Second" }],
+      ])
+    );
+  });
+
+  it("should open two stores of one database", async () => {
+    const name = uniqueName();
+    const upgrade = (db: IDBDatabase) => {
+      db.createObjectStore("drafts");
+      db.createObjectStore("settings");
+    };
+    const { result } = renderHook(() => ({
+      drafts: useIndexedDB<Draft>(name, { store: "drafts", upgrade }),
+      settings: useIndexedDB<string>(name, { store: "settings", upgrade }),
+    }));
+    result.current.drafts.data$.get();
+    result.current.settings.data$.get();
+    await waitFor(() => expect(result.current.drafts.isLoaded$.get()).toBe(true));
+    await waitFor(() => expect(result.current.settings.isLoaded$.get()).toBe(true));
+
+    result.current.drafts.data$.a.set({ title: "First" });
+    result.current.settings.data$.theme.set("dark");
+
+    await waitFor(async () => expect(await readStore(name)).toEqual([["a", { title: "First" }]]));
+    await waitFor(async () =>
+      expect(await readStore(name, "settings")).toEqual([["theme", "dark"]])
+    );
+  });
+
+  it("should reject a store missing from an existing database", async () => {
+    const name = uniqueName();
+    await seed(name, []);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "settings" }));
+
+    result.current.data$.get();
+
+    await waitFor(() => expect(result.current.error$.get()?.name).toBe("NotFoundError"));
+    expect(result.current.error$.get()?.message).toContain("Create it in `upgrade`");
+    expect(result.current.isLoaded$.get()).toBe(false);
+  });
+
+  it("should expose errors", async () => {
+    const name = uniqueName();
+    await seed(name, []);
+    const { result } = renderHook(() => useIndexedDB<Draft>(name, { store: "missing" }));
+
+    result.current.data$.get();
+
+    await waitFor(() => expect(result.current.error$.get()?.name).toBe("NotFoundError"));
+    expect(result.current.isLoaded$.get()).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+"use client";
+import { observable, syncState, type Observable } from "@legendapp/state";
+import { synced } from "@legendapp/state/sync";
+import { useMemo } from "react";
+
+export interface IndexedDBUpgradeParams {
+  /** Version the database had; `0` when it is created */
+  oldVersion: number;
+  newVersion: number;
+  /** The `versionchange` transaction, e.g. to migrate records of an existing store */
+  transaction: IDBTransaction;
+}
+
+export interface UseIndexedDBOptions {
+  /** Name of the object store to expose */
+  store: string;
+  /** Database version. Raising it runs `upgrade`. Default: `1` */
+  version?: number;
+  /**
+   * Creates and migrates object stores when the database is created or its version raised.
+   * `store` is created afterwards if it still does not exist, with out-of-line keys. Stores of
+   * other hooks on the same database must be created here too: a store missing from an existing
+   * database is an error until the version is raised.
+   */
+  upgrade?: (db: IDBDatabase, params: IndexedDBUpgradeParams) => void;
+  /** Time in ms to collect writes into one transaction. Default: `0` (writes of the same tick) */
+  writeDelay?: number;
+}
+
+export interface UseIndexedDBReturn<T> {
+  /** Records of the object store by key. Loaded when first read; writes are saved to the store */
+  data$: Observable<Record<string, T>>;
+  /** `true` once the records have been loaded */
+  isLoaded$: Observable<boolean>;
+  /** Error of the last failed load or write; cleared by the next successful load */
+  error$: Observable<Error | null>;
+}
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const whenDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+
+/**
+ * One connection per database and version, shared by all hooks using it. Object stores are
+ * only created while the version is raised, so a hook whose store is missing gets an error.
+ */
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+function openDatabase(name: string, options: UseIndexedDBOptions): Promise<IDBDatabase> {
+  const { store, version = 1, upgrade } = options;
+  const id = `${name}@${version}`;
+  let connection = connections.get(id);
+  if (!connection) {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      upgrade?.(db, {
+        oldVersion: event.oldVersion,
+        newVersion: event.newVersion ?? version,
+        transaction: request.transaction!,
+      });
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+    };
+    connection = toPromise(request).then((db) => {
+      // Another tab upgrades the database: step aside instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(id);
+      };
+      return db;
+    });
+    connection.catch(() => connections.delete(id));
+    connections.set(id, connection);
+  }
+  return connection.then((db) => {
+    if (!db.objectStoreNames.contains(store)) {
+      throw new DOMException(
+        `Object store "${store}" does not exist in database "${name}" (version ${db.version}). ` +
+          "Create it in `upgrade` and raise `version`.",
+        "NotFoundError"
+      );
+    }
+    return db;
+  });
+}
+
+function createObjectStore<T>(name: string, options: UseIndexedDBOptions): UseIndexedDBReturn<T> {
+  const { store, writeDelay = 0 } = options;
+  const error$ = observable<Error | null>(null);
+  // Database keys by record key, so number or date keys are written back as they were read
+  const keys = new Map<string, IDBValidKey>();
+
+  const data$ = observable(
+    synced<Record<string, T>>({
+      initial: {},
+      get: async () => {
+        const db = await openDatabase(name, options);
+        const objectStore = db.transaction(store, "readonly").objectStore(store);
+        const [storeKeys, values] = await Promise.all([
+          toPromise(objectStore.getAllKeys()),
+          toPromise(objectStore.getAll() as IDBRequest<T[]>),
+        ]);
+        keys.clear();
+        const records: Record<string, T> = {};
+        storeKeys.forEach((key, index) => {
+          keys.set(String(key), key);
+          records[String(key)] = values[index];
+        });
+        error$.set(null);
+        return records;
+      },
+      set: async ({ value, changes }) => {
+        const db = await openDatabase(name, options);
+        const transaction = db.transaction(store, "readwrite");
+        const objectStore = transaction.objectStore(store);
+        // In-line keys are read from the record itself
+        const inline = objectStore.keyPath !== null;
+
+        const write = (key: string) => {
+          const record = value[key];
+          const dbKey = keys.get(key) ?? key;
+          if (record === undefined) {
+            objectStore.delete(dbKey);
+            keys.delete(key);
+          } else {
+            if (inline) objectStore.put(record);
+            else objectStore.put(record, dbKey);
+            keys.set(key, dbKey);
+          }
+        };
+
+        if (changes.some((change) => change.path.length === 0)) {
+          // The whole record set was replaced
+          objectStore.clear();
+          const previous = new Map(keys);
+          keys.clear();
+          for (const key of Object.keys(value)) {
+            if (previous.has(key)) keys.set(key, previous.get(key)!);
+            write(key);
+          }
+        } else {
+          new Set(changes.map((change) => change.path[0])).forEach(write);
+        }
+        await whenDone(transaction);
+      },
+      debounceSet: writeDelay,
+      onError: (error) => error$.set(error),
+    })
+  );
+
+  return { data$, isLoaded$: syncState(data$).isLoaded, error$ };
+}
+
+/**
+ * Custom hook that exposes an IndexedDB object store as an Observable record, keyed by the
+ * records' keys. The database is opened and the records are loaded when `data$` is first read;
+ * writes to `data$` are saved in one `readwrite` transaction per `writeDelay`.
+ *
+ * The database is created, or upgraded when `version` is raised, with the `upgrade` callback.
+ * Hooks of the same database share one connection and should pass the same `version` and
+ * `upgrade`. The name and options are read when the store is created; another `name`, `store`
+ * or `version` creates a new one.
+ *
+ * @example
+ * ```tsx
+ * const { data$: drafts$, isLoaded$ } = useIndexedDB<Draft>("offline-cache", { store: "drafts" })
+ *
+ * drafts$[draft.id].set(draft)
+ * ```
+ */
+export function useIndexedDB<T>(name: string, options: UseIndexedDBOptions): UseIndexedDBReturn<T> {
+  const { store, version } = options;
+  return useMemo(
+    () => createObjectStore<T>(name, options),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [name, store, version]
+  );
+}
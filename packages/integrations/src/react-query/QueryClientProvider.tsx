@@ -0,0 +1,37 @@
+"use client";
+import { QueryClientContext as ReactQueryClientContext } from "@tanstack/react-query";
+import {
+  QueryClientProvider as BaseQueryClientProvider,
+  type QueryClientProviderProps,
+} from "../tanstack-query/QueryClientProvider";
+
+/**
+ * Provider component that makes QueryClient available to the Legend hooks and to
+ * `@tanstack/react-query`'s hooks.
+ *
+ * It can replace react-query's `QueryClientProvider` at the root: react-query hooks and the
+ * Legend hooks share one client and one cache, so screens can be migrated one at a time.
+ *
+ * @example
+ * ```tsx
+ * import { QueryClient } from '@tanstack/react-query'
+ * import { QueryClientProvider } from '@usels/integrations/react-query'
+ *
+ * const queryClient = new QueryClient()
+ *
+ * function App() {
+ *   return (
+ *     <QueryClientProvider client={queryClient}>
+ *       <YourApp />
+ *     </QueryClientProvider>
+ *   )
+ * }
+ * ```
+ */
+export function QueryClientProvider({ client, children }: QueryClientProviderProps) {
+  return (
+    <BaseQueryClientProvider client={client}>
+      <ReactQueryClientContext.Provider value={client}>{children}</ReactQueryClientContext.Provider>
+    </BaseQueryClientProvider>
+  );
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import {
+  QueryClientProvider as ReactQueryClientProvider,
+  useQuery as useReactQuery,
+  useQueryClient as useReactQueryClient,
+} from "@tanstack/react-query";
+import { QueryClientProvider as BaseQueryClientProvider } from "../../tanstack-query/QueryClientProvider";
+import { useQuery } from "../../tanstack-query/useQuery";
+import { QueryClientProvider } from "../QueryClientProvider";
+import { useQueryClient } from "../useQueryClient";
+import { createTestQueryClient } from "../../__tests__/test-utils";
+
+describe("@tanstack/react-query interop", () => {
+  describe("useQueryClient", () => {
+    it("should fall back to react-query's QueryClientProvider", () => {
+      const queryClient = createTestQueryClient();
+
+      const { result } = renderHook(() => useQueryClient(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <ReactQueryClientProvider client={queryClient}>{children}</ReactQueryClientProvider>
+        ),
+      });
+
+      expect(result.current).toBe(queryClient);
+    });
+
+    it("should prefer the Legend provider when both are present", () => {
+      const outerClient = createTestQueryClient();
+      const ownClient = createTestQueryClient();
+
+      const { result } = renderHook(() => useQueryClient(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <ReactQueryClientProvider client={outerClient}>
+            <BaseQueryClientProvider client={ownClient}>{children}</BaseQueryClientProvider>
+          </ReactQueryClientProvider>
+        ),
+      });
+
+      expect(result.current).toBe(ownClient);
+    });
+
+    it("should throw outside of any provider", () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(() => renderHook(() => useQueryClient())).toThrow(
+        "useQueryClient must be used within a QueryClientProvider"
+      );
+      consoleError.mockRestore();
+    });
+  });
+
+  it("should not make the Legend hooks fall back to react-query's provider", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const queryClient = createTestQueryClient();
+
+    expect(() =>
+      renderHook(
+        () => useQuery({ queryKey: ["shared"], queryFn: vi.fn().mockResolvedValue("data") }),
+        {
+          wrapper: ({ children }: { children: ReactNode }) => (
+            <ReactQueryClientProvider client={queryClient}>{children}</ReactQueryClientProvider>
+          ),
+        }
+      )
+    ).toThrow("useQueryClient must be used within a QueryClientProvider");
+    consoleError.mockRestore();
+  });
+
+  describe("QueryClientProvider", () => {
+    it("should register the client for react-query hooks", () => {
+      const queryClient = createTestQueryClient();
+
+      const { result } = renderHook(() => useReactQueryClient(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+        ),
+      });
+
+      expect(result.current).toBe(queryClient);
+    });
+
+    it("should share one cache between react-query and Legend hooks", async () => {
+      const queryClient = createTestQueryClient();
+      const queryFn = vi.fn().mockResolvedValue("data");
+
+      const { result } = renderHook(
+        () => ({
+          legacy: useReactQuery({ queryKey: ["shared"], queryFn, staleTime: 60_000 }),
+          legend$: useQuery({ queryKey: ["shared"], queryFn, staleTime: 60_000 }),
+        }),
+        {
+          wrapper: ({ children }: { children: ReactNode }) => (
+            <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+          ),
+        }
+      );
+
+      await waitFor(() => expect(result.current.legend$.data.get()).toBe("data"));
+      await waitFor(() => expect(result.current.legacy.data).toBe("data"));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
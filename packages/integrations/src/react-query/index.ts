@@ -0,0 +1,2 @@
+export { QueryClientProvider } from "./QueryClientProvider";
+export { useQueryClient } from "./useQueryClient";
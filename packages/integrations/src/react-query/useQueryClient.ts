@@ -0,0 +1,37 @@
+"use client";
+import { useContext } from "react";
+import type { QueryClient } from "@tanstack/query-core";
+import { QueryClientContext as ReactQueryClientContext } from "@tanstack/react-query";
+import { QueryClientContext } from "../tanstack-query/QueryClientProvider";
+
+/**
+ * Hook to retrieve the QueryClient from context.
+ * Falls back to the client of `@tanstack/react-query`'s `QueryClientProvider`. The fallback
+ * covers this hook only: the Legend query hooks need the `QueryClientProvider` of this entry.
+ *
+ * @throws Error if used outside of both providers
+ *
+ * @example
+ * ```tsx
+ * import { useQueryClient } from '@usels/integrations/react-query'
+ *
+ * function MyComponent() {
+ *   const queryClient = useQueryClient()
+ *   // Use queryClient...
+ * }
+ * ```
+ */
+export function useQueryClient(): QueryClient {
+  const ownClient = useContext(QueryClientContext);
+  const reactQueryClient = useContext(ReactQueryClientContext);
+  const client = ownClient ?? reactQueryClient;
+
+  if (!client) {
+    throw new Error(
+      "useQueryClient must be used within a QueryClientProvider. " +
+        "Make sure your component tree is wrapped with <QueryClientProvider client={queryClient}>."
+    );
+  }
+
+  return client;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { observable, observe } from "@legendapp/state";
+import { BehaviorSubject, Subject, filter, map } from "rxjs";
+import { fromRx, toRx } from "../interop";
+
+describe("fromRx", () => {
+  it("should hold the initial value until the source emits", () => {
+    const source = new Subject<number>();
+    const count$ = fromRx(source, 0);
+
+    expect(count$.get()).toBe(0);
+
+    source.next(5);
+    expect(count$.get()).toBe(5);
+  });
+
+  it("should subscribe when first read", () => {
+    const source = new Subject<number>();
+    const count$ = fromRx(source, 0);
+    expect(source.observed).toBe(false);
+
+    count$.get();
+
+    expect(source.observed).toBe(true);
+  });
+
+  it("should notify observers of emitted values", () => {
+    const source = new BehaviorSubject({ name: "a" });
+    const item$ = fromRx(source.pipe(map((item) => item.name)), "");
+    const seen: string[] = [];
+    observe(() => {
+      seen.push(item$.get());
+    });
+
+    source.next({ name: "b" });
+
+    expect(seen).toEqual(["a", "b"]);
+  });
+});
+
+describe("toRx", () => {
+  it("should emit the current value and every change", () => {
+    const count$ = observable(1);
+    const next = vi.fn();
+    const subscription = toRx(count$).subscribe(next);
+
+    count$.set(2);
+    count$.set(3);
+
+    expect(next.mock.calls).toEqual([[1], [2], [3]]);
+    subscription.unsubscribe();
+  });
+
+  it("should stop emitting once unsubscribed", () => {
+    const count$ = observable(1);
+    const next = vi.fn();
+    const subscription = toRx(count$).subscribe(next);
+
+    subscription.unsubscribe();
+    count$.set(2);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it("should compose with RxJS operators", () => {
+    const todos$ = observable([{ done: false }]);
+    const next = vi.fn();
+    const subscription = toRx(todos$)
+      .pipe(
+        map((todos) => todos.filter((todo) => todo.done).length),
+        filter((done) => done > 0)
+      )
+      .subscribe(next);
+
+    todos$[0].done.set(true);
+
+    expect(next).toHaveBeenCalledWith(1);
+    subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,4 @@
+export { useRx } from "./useRx";
+export { fromRx, toRx } from "./interop";
+
+export type { UseRxReturn } from "./useRx";
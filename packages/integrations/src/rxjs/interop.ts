@@ -0,0 +1,52 @@
+import { observable, type Observable, type ObservableParam } from "@legendapp/state";
+import { synced } from "@legendapp/state/sync";
+import { Observable as RxObservable, type Subscribable } from "rxjs";
+
+/** RxJS sources may fail with any value; non-Error values are wrapped, kept as `cause` */
+export const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error), { cause: error });
+
+/**
+ * Creates a Legend-State Observable holding the latest value of an RxJS Observable (or any
+ * `Subscribable`). The source is subscribed when the Observable is first read and stays
+ * subscribed for its lifetime; `initial` is its value until the source emits.
+ *
+ * Errors of the source go to Legend-State's sync error handling. For a subscription scoped
+ * to a component, with error and completion state, use `useRx`.
+ *
+ * @example
+ * ```ts
+ * const price$ = fromRx(ticker$.pipe(map((tick) => tick.price)), 0)
+ *
+ * observe(() => console.log(price$.get()))
+ * ```
+ */
+export function fromRx<T>(source: Subscribable<T>, initial: T): Observable<T> {
+  return observable(
+    synced<T>({
+      initial,
+      subscribe: ({ update, onError }) => {
+        const subscription = source.subscribe({
+          next: (value) => update({ value }),
+          error: (error) => onError(toError(error)),
+        });
+        return () => subscription.unsubscribe();
+      },
+    })
+  );
+}
+
+/**
+ * Creates an RxJS Observable from a Legend-State Observable. Each subscriber receives the
+ * current value, then every change; unsubscribing removes the change listener.
+ *
+ * @example
+ * ```ts
+ * toRx(query$).pipe(debounceTime(300), distinctUntilChanged()).subscribe(search)
+ * ```
+ */
+export function toRx<T>(obs$: ObservableParam<T>): RxObservable<T> {
+  return new RxObservable<T>((subscriber) =>
+    obs$.onChange(({ value }) => subscriber.next(value), { initial: true })
+  );
+}
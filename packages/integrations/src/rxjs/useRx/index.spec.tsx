@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { BehaviorSubject, Subject } from "rxjs";
+import { useRx } from ".";
+
+describe("useRx", () => {
+  it("should expose the initial value and then emitted values", () => {
+    const source = new Subject<number>();
+    const { result } = renderHook(() => useRx(source, 0));
+
+    expect(result.current.value$.get()).toBe(0);
+
+    act(() => source.next(1));
+    expect(result.current.value$.get()).toBe(1);
+  });
+
+  it("should take a value a source emits on subscription", () => {
+    const source = new BehaviorSubject("ready");
+    const { result } = renderHook(() => useRx(source));
+
+    expect(result.current.value$.get()).toBe("ready");
+  });
+
+  it("should expose the error of a failed source", () => {
+    const source = new Subject<number>();
+    const { result } = renderHook(() => useRx(source, 0));
+    const error = new Error("socket closed");
+
+    act(() => source.error(error));
+
+    expect(result.current.error$.get()).toBe(error);
+    expect(result.current.isComplete$.get()).toBe(false);
+  });
+
+  it("should wrap errors that are not Error instances", () => {
+    const source = new Subject<number>();
+    const { result } = renderHook(() => useRx(source, 0));
+
+    act(() => source.error("timeout"));
+
+    expect(result.current.error$.get()?.message).toBe("timeout");
+    expect(result.current.error$.get()?.cause).toBe("timeout");
+  });
+
+  it("should expose completion", () => {
+    const source = new Subject<number>();
+    const { result } = renderHook(() => useRx(source, 0));
+
+    act(() => source.complete());
+
+    expect(result.current.isComplete$.get()).toBe(true);
+  });
+
+  it("should unsubscribe on unmount", async () => {
+    const source = new Subject<number>();
+    const { unmount } = renderHook(() => useRx(source, 0));
+    expect(source.observed).toBe(true);
+
+    unmount();
+
+    await waitFor(() => expect(source.observed).toBe(false));
+  });
+
+  it("should switch to a new source and reset error and completion", () => {
+    const first = new Subject<number>();
+    const second = new Subject<number>();
+    const { result, rerender } = renderHook(({ source }) => useRx(source, 0), {
+      initialProps: { source: first },
+    });
+    act(() => first.complete());
+
+    rerender({ source: second });
+    act(() => second.next(2));
+
+    expect(first.observed).toBe(false);
+    expect(result.current.value$.get()).toBe(2);
+    expect(result.current.isComplete$.get()).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+"use client";
+import { batch, type Observable, type ObservableParam } from "@legendapp/state";
+import { useMount, useObservable, useObserve, useUnmount } from "@legendapp/state/react";
+import type { Subscribable, Unsubscribable } from "rxjs";
+import { useMemo, useRef } from "react";
+import { toError } from "../interop";
+
+export interface UseRxReturn<T> {
+  /** Latest value emitted by the source, or the initial value until it emits */
+  value$: Observable<T>;
+  /** Error the source failed with (other values are wrapped); `undefined` until it fails */
+  error$: Observable<Error | undefined>;
+  /** `true` once the source completed */
+  isComplete$: Observable<boolean>;
+}
+
+/**
+ * Custom hook that subscribes to an RxJS Observable (or any `Subscribable`) while the
+ * component is mounted and exposes its latest value, error and completion as Legend-State
+ * Observables. Passing another source unsubscribes from the previous one and resets the error
+ * and completion state, so create the source outside render or memoize it.
+ *
+ * @example
+ * ```tsx
+ * const messages = useMemo(() => socket$.pipe(scan((all, msg) => [...all, msg], [])), [socket$])
+ * const { value$, error$ } = useRx(messages, [])
+ *
+ * const count = useSelector(() => value$.get().length)
+ * ```
+ */
+export function useRx<T>(source: Subscribable<T>, initial: T): UseRxReturn<T>;
+export function useRx<T>(source: Subscribable<T>): UseRxReturn<T | undefined>;
+export function useRx<T>(source: Subscribable<T>, initial?: T): UseRxReturn<T | undefined> {
+  const value$ = useObservable<T | undefined>(initial);
+  const error$ = useObservable<Error | undefined>(undefined);
+  const isComplete$ = useObservable(false);
+
+  // Observable mount flag — lets useObserve subscribe once the component mounted.
+  const mounted$ = useObservable(false);
+  const subscriptionRef = useRef<Unsubscribable | null>(null);
+
+  const sourceKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [source]
+  );
+  useObserve(() => {
+    subscriptionRef.current?.unsubscribe();
+    subscriptionRef.current = null;
+
+    if (!mounted$.get()) return;
+
+    batch(() => {
+      error$.set(undefined);
+      isComplete$.set(false);
+    });
+    subscriptionRef.current = source.subscribe({
+      // generic values: Legend-State's typed set() cannot resolve T
+      next: (value) => (value$ as ObservableParam<T | undefined>).set(value),
+      error: (error) => error$.set(toError(error)),
+      complete: () => isComplete$.set(true),
+    });
+  }, [sourceKey]);
+
+  // useMount/useUnmount manage mount state only — no setup logic here.
+  useMount(() => {
+    mounted$.set(true);
+  });
+  useUnmount(() => {
+    mounted$.set(false);
+    subscriptionRef.current?.unsubscribe();
+    subscriptionRef.current = null;
+  });
+
+  return { value$, error$, isComplete$ };
+}
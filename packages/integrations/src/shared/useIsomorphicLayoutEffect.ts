@@ -0,0 +1,8 @@
+import { useEffect, useLayoutEffect } from "react";
+
+/**
+ * `useLayoutEffect` in the browser, `useEffect` on the server — where neither runs, but
+ * `useLayoutEffect` warns on every render.
+ */
+export const useIsomorphicLayoutEffect =
+  typeof window === "undefined" ? useEffect : useLayoutEffect;
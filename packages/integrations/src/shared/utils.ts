@@ -0,0 +1,72 @@
+import type { Observable } from "@legendapp/state";
+
+/**
+ * Copies arrays and plain objects recursively; anything else is kept by reference.
+ * Data crossing between a third-party store and an Observable is cloned, because
+ * Legend-State writes mutate the stored object in place and must never reach objects the
+ * other side still holds (e.g. query cache entries).
+ */
+export function clonePlainData<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clonePlainData) as T;
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value as object).map(([k, v]) => [k, clonePlainData(v)])
+    ) as T;
+  }
+  return value;
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+
+/** Compares arrays and plain objects structurally, anything else with `Object.is` */
+export function isEqualData(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqualData(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqualData(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Structurally diffs `next` into the value held by `target$`, writing only what changed:
+ * - arrays and plain objects of the same kind are walked key by key (removed keys are
+ *   deleted, extra array items spliced off)
+ * - any other change sets a copy of the new value (see `clonePlainData`)
+ *
+ * Only the changed leaves (and their ancestors) are notified, so an observer bound to an
+ * unchanged item is not. The stored value is mutated in place, so it must never be an object
+ * shared with another store. Call inside `batch` to notify once.
+ */
+export function reconcileData(target$: Observable<unknown>, next: unknown): void {
+  const prev = target$.peek();
+  if (Object.is(prev, next)) return;
+  const children$ = target$ as unknown as Record<string, Observable<unknown>>;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    next.forEach((item, index) => reconcileData(children$[index], item));
+    if (prev.length > next.length) {
+      (target$ as unknown as Observable<unknown[]>).splice(next.length);
+    }
+    return;
+  }
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (!(key in next)) children$[key].delete();
+    }
+    for (const [key, value] of Object.entries(next)) reconcileData(children$[key], value);
+    return;
+  }
+  target$.set(clonePlainData(next) as never);
+}
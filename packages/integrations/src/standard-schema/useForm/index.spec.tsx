@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import { z } from "zod";
+import { useForm } from ".";
+
+const signUp = z.object({
+  name: z.string().trim().min(1, "Required"),
+  email: z.string().email("Invalid email"),
+  address: z.object({ city: z.string().min(1, "Required") }),
+});
+
+const emptySignUp = () => ({ name: "", email: "", address: { city: "" } });
+
+/** Resolves once the validations scheduled by a change have settled */
+const flush = () => act(async () => {});
+
+describe("useForm", () => {
+  it("should validate the initial value on mount without showing errors", async () => {
+    const form$ = observable(emptySignUp());
+    const { result } = renderHook(() => useForm(form$, signUp));
+    await flush();
+
+    expect(result.current.isValid$.get()).toBe(false);
+    expect(result.current.errors$.get()).toEqual({});
+  });
+
+  it("should show errors only for the changed path", async () => {
+    const form$ = observable(emptySignUp());
+    const { result } = renderHook(() => useForm(form$, signUp));
+
+    form$.email.set("nope");
+    await flush();
+
+    expect(result.current.errors$.get()).toEqual({ email: ["Invalid email"] });
+  });
+
+  it("should clear the errors of a fixed field and update isValid$", async () => {
+    const form$ = observable({ name: "Ann", email: "nope", address: { city: "Oslo" } });
+    const { result } = renderHook(() => useForm(form$, signUp));
+    form$.email.set("still-nope");
+    await flush();
+    expect(result.current.errors$.email.get()).toEqual(["Invalid email"]);
+
+    form$.email.set("ann@example.com");
+    await flush();
+
+    expect(result.current.errors$.get()).toEqual({});
+    expect(result.current.isValid$.get()).toBe(true);
+  });
+
+  it("should not notify errors of untouched paths", async () => {
+    const form$ = observable(emptySignUp());
+    const { result } = renderHook(() => useForm(form$, signUp));
+    await act(() => result.current.validate());
+    const onNameErrors = vi.fn();
+    result.current.errors$.name.onChange(onNameErrors);
+
+    form$.email.set("ann@example.com");
+    await flush();
+
+    expect(result.current.errors$.email.get()).toBeUndefined();
+    expect(result.current.errors$.name.get()).toEqual(["Required"]);
+    expect(onNameErrors).not.toHaveBeenCalled();
+  });
+
+  it("should key nested and array fields by their dotted path", async () => {
+    const schema = z.object({ items: z.array(z.object({ title: z.string().min(1, "Required") })) });
+    const form$ = observable({ items: [{ title: "a" }, { title: "b" }] });
+    const { result } = renderHook(() => useForm(form$, schema));
+
+    form$.items[1].title.set("");
+    await flush();
+
+    expect(result.current.errors$.get()).toEqual({ "items.1.title": ["Required"] });
+  });
+
+  it("should track dirty leaf paths against the value at mount", async () => {
+    const form$ = observable(emptySignUp());
+    const { result } = renderHook(() => useForm(form$, signUp));
+
+    form$.address.city.set("Oslo");
+    form$.name.set("Ann");
+    expect(result.current.dirty$.get()).toEqual({ "address.city": true, name: true });
+
+    form$.address.set({ city: "" });
+    expect(result.current.dirty$.get()).toEqual({ name: true });
+  });
+
+  it("should mark touched paths", () => {
+    const form$ = observable(emptySignUp());
+    const { result } = renderHook(() => useForm(form$, signUp));
+
+    act(() => result.current.touch("email"));
+
+    expect(result.current.touched$.get()).toEqual({ email: true });
+  });
+
+  it("should report issues without a path in formErrors$", async () => {
+    const schema = z
+      .object({ password: z.string(), confirm: z.string() })
+      .refine((value) => value.password === value.confirm, "Passwords differ");
+    const form$ = observable({ password: "secret", confirm: "secret" });
+    const { result } = renderHook(() => useForm(form$, schema));
+
+    form$.confirm.set("other");
+    await flush();
+
+    expect(result.current.formErrors$.get()).toEqual(["Passwords differ"]);
+    expect(result.current.isValid$.get()).toBe(false);
+  });
+
+  describe("handleSubmit", () => {
+    it("should show all errors and call onInvalid for an invalid value", async () => {
+      const form$ = observable(emptySignUp());
+      const { result } = renderHook(() => useForm(form$, signUp));
+      const onValid = vi.fn();
+      const onInvalid = vi.fn();
+      const preventDefault = vi.fn();
+
+      await act(() => result.current.handleSubmit(onValid, onInvalid)({ preventDefault }));
+
+      const errors = {
+        name: ["Required"],
+        email: ["Invalid email"],
+        "address.city": ["Required"],
+      };
+      expect(preventDefault).toHaveBeenCalled();
+      expect(result.current.errors$.get()).toEqual(errors);
+      expect(onInvalid).toHaveBeenCalledWith(errors, []);
+      expect(onValid).not.toHaveBeenCalled();
+    });
+
+    it("should call onValid with the schema output and track isSubmitting$", async () => {
+      const form$ = observable({
+        name: "  Ann ",
+        email: "ann@example.com",
+        address: { city: "Oslo" },
+      });
+      const { result } = renderHook(() => useForm(form$, signUp));
+      let resolveSubmit!: () => void;
+      const onValid = vi.fn(() => new Promise<void>((resolve) => (resolveSubmit = resolve)));
+
+      let submitting!: Promise<void>;
+      act(() => {
+        submitting = result.current.handleSubmit(onValid)();
+      });
+      await flush();
+
+      expect(onValid).toHaveBeenCalledWith({
+        name: "Ann",
+        email: "ann@example.com",
+        address: { city: "Oslo" },
+      });
+      expect(result.current.isSubmitting$.get()).toBe(true);
+
+      await act(async () => {
+        resolveSubmit();
+        await submitting;
+      });
+      expect(result.current.isSubmitting$.get()).toBe(false);
+    });
+  });
+
+  it("should drop async results of a path that changed again", async () => {
+    const pending: (() => void)[] = [];
+    // A validator that resolves in the order the test chooses
+    const asyncSchema: StandardSchemaV1<{ name: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          new Promise((resolve) => {
+            const { name } = value as { name: string };
+            pending.push(() =>
+              resolve(
+                name.length > 2
+                  ? { value: { name } }
+                  : { issues: [{ message: "Too short", path: ["name"] }] }
+              )
+            );
+          }),
+      },
+    };
+    const form$ = observable({ name: "Ann" });
+    const { result } = renderHook(() => useForm(form$, asyncSchema));
+
+    form$.name.set("A");
+    form$.name.set("Anna");
+    await act(async () => {
+      pending[2](); // "Anna" resolves first
+      pending[1](); // the stale "A" result is dropped
+    });
+
+    expect(result.current.errors$.get()).toEqual({});
+    expect(result.current.isValid$.get()).toBe(true);
+  });
+
+  it("should not let a slow whole-value validation overwrite newer field errors", async () => {
+    const pending: (() => void)[] = [];
+    const asyncSchema: StandardSchemaV1<{ name: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          new Promise((resolve) => {
+            const { name } = value as { name: string };
+            pending.push(() =>
+              resolve(
+                name.length > 2
+                  ? { value: { name } }
+                  : { issues: [{ message: "Too short", path: ["name"] }] }
+              )
+            );
+          }),
+      },
+    };
+    const form$ = observable({ name: "A" });
+    const { result } = renderHook(() => useForm(form$, asyncSchema));
+
+    let validation: Promise<boolean> | undefined;
+    act(() => {
+      validation = result.current.validate();
+    });
+    form$.name.set("Anna");
+    await act(async () => {
+      pending[2](); // the field validation of "Anna" resolves first
+      pending[1](); // the older validation of "A" must not bring its error back
+      await validation;
+    });
+
+    expect(result.current.errors$.get()).toEqual({});
+    expect(result.current.isValid$.get()).toBe(true);
+  });
+
+  it("should show the error of a validator that throws", async () => {
+    const throwingSchema: StandardSchemaV1<{ name: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          (value as { name: string }).name === "boom"
+            ? Promise.reject(new Error("Validator unavailable"))
+            : { value: value as { name: string } },
+      },
+    };
+    const form$ = observable({ name: "" });
+    const { result } = renderHook(() => useForm(form$, throwingSchema));
+    await flush();
+    expect(result.current.isValid$.get()).toBe(true);
+
+    form$.name.set("boom");
+    await flush();
+
+    expect(result.current.formErrors$.get()).toEqual(["Validator unavailable"]);
+    expect(result.current.isValid$.get()).toBe(false);
+  });
+});
@@ -0,0 +1,270 @@
+"use client";
+import { batch, type Observable } from "@legendapp/state";
+import { useMount, useObservable } from "@legendapp/state/react";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
+import { useLayoutEffect, useRef } from "react";
+import { clonePlainData } from "../../shared/utils";
+
+/** Messages per field path — `"email"`, `"address.city"`, `"items.0.name"` */
+export type FormErrors = Record<string, string[]>;
+
+export interface UseFormReturn<TSchema extends StandardSchemaV1> {
+  /**
+   * Messages per field path. A change re-validates the value and updates the paths on the
+   * changed branch only; `validate` and `handleSubmit` update all of them.
+   */
+  errors$: Observable<FormErrors>;
+  /**
+   * Messages of issues without a path, e.g. a refinement of the whole value — or of the error
+   * a validator threw
+   */
+  formErrors$: Observable<string[]>;
+  /** Paths marked with `touch` (typically on blur) */
+  touched$: Observable<Record<string, boolean>>;
+  /** Leaf paths whose value differs from the value at mount */
+  dirty$: Observable<Record<string, boolean>>;
+  /** Whether the whole value passes the schema; `false` until the first validation finished */
+  isValid$: Observable<boolean>;
+  /** `true` while `handleSubmit` validates or runs its callback */
+  isSubmitting$: Observable<boolean>;
+  touch: (path: string) => void;
+  /** Validates the whole value and shows all errors; resolves to whether it is valid */
+  validate: () => Promise<boolean>;
+  /**
+   * Returns a submit handler: prevents the event's default, validates the whole value and
+   * calls `onValid` with the schema's output — or `onInvalid` with the errors.
+   */
+  handleSubmit: (
+    onValid: (value: StandardSchemaV1.InferOutput<TSchema>) => unknown,
+    onInvalid?: (errors: FormErrors, formErrors: string[]) => unknown
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+}
+
+type Grouped = { fields: FormErrors; form: string[] };
+
+const toPath = (path: StandardSchemaV1.Issue["path"]): string =>
+  (path ?? [])
+    .map((segment) => String(typeof segment === "object" ? segment.key : segment))
+    .join(".");
+
+function groupIssues(issues: readonly StandardSchemaV1.Issue[] = []): Grouped {
+  const grouped: Grouped = { fields: {}, form: [] };
+  for (const issue of issues) {
+    const path = toPath(issue.path);
+    if (path === "") grouped.form.push(issue.message);
+    else (grouped.fields[path] ??= []).push(issue.message);
+  }
+  return grouped;
+}
+
+/** Whether `path` and `changed` lie on one branch: the same path, a descendant or an ancestor */
+const onBranch = (path: string, changed: string) =>
+  changed === "" ||
+  path === changed ||
+  path.startsWith(`${changed}.`) ||
+  changed.startsWith(`${path}.`);
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  (Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype);
+
+/** Collects the leaf paths under `prefix` whose values differ between `a` and `b` */
+function diffLeaves(a: unknown, b: unknown, prefix: string, out: Set<string>): void {
+  if (isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b)) {
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      diffLeaves(a[key], b[key], prefix === "" ? key : `${prefix}.${key}`, out);
+    }
+  } else if (!Object.is(a, b)) {
+    out.add(prefix);
+  }
+}
+
+const getAt = (value: unknown, path: string): unknown =>
+  path === ""
+    ? value
+    : path
+        .split(".")
+        .reduce<unknown>((node, key) => (isContainer(node) ? node[key] : undefined), value);
+
+/**
+ * Custom hook that validates an Observable form value with a Standard Schema v1 validator
+ * (zod, valibot, arktype, ...) and tracks the form state in Observables: `errors$`,
+ * `touched$` and `dirty$` per field path, plus `isValid$`.
+ *
+ * Standard Schema only validates a whole value — it exposes no sub-schemas per field. So every
+ * change validates the whole value, and only the issues on the changed path's branch are kept:
+ * editing one field never reveals errors of fields the user has not reached yet. Async
+ * validators are supported; a result is dropped once a newer validation covers its paths.
+ *
+ * @example
+ * ```tsx
+ * const form$ = useObservable({ email: '', password: '' })
+ * const { errors$, touch, handleSubmit } = useForm(form$, z.object({
+ *   email: z.string().email(),
+ *   password: z.string().min(8),
+ * }))
+ *
+ * const email = useSelector(form$.email)
+ * const emailErrors = useSelector(errors$.email)
+ *
+ * <form onSubmit={handleSubmit((values) => signIn(values))}>
+ *   <input value={email} onChange={(e) => form$.email.set(e.target.value)} onBlur={() => touch('email')} />
+ *   {emailErrors?.[0]}
+ * </form>
+ * ```
+ */
+export function useForm<TSchema extends StandardSchemaV1>(
+  value$: Observable<StandardSchemaV1.InferInput<TSchema>>,
+  schema: TSchema
+): UseFormReturn<TSchema> {
+  const errors$ = useObservable<FormErrors>({});
+  const formErrors$ = useObservable<string[]>([]);
+  const touched$ = useObservable<Record<string, boolean>>({});
+  const dirty$ = useObservable<Record<string, boolean>>({});
+  const isValid$ = useObservable(false);
+  const isSubmitting$ = useObservable(false);
+
+  // Always validate with the latest schema without re-subscribing.
+  const schemaRef = useRef(schema);
+  useLayoutEffect(() => {
+    schemaRef.current = schema;
+  });
+
+  // initial: the value dirty$ compares against. latest: id of the latest validation run, which
+  // alone sets isValid$ and formErrors$. byPath: id of the latest run per changed path, and
+  // all: id of the latest run of the whole value — the newer of both sets a path's errors
+  const stateRef = useRef({
+    initial: undefined as unknown,
+    latest: 0,
+    all: 0,
+    byPath: new Map<string, number>(),
+  });
+
+  // Async so a validator that throws synchronously rejects as well
+  const validateValue = async () => schemaRef.current["~standard"].validate(value$.peek());
+
+  /** Shows the error of a validator that threw, unless a newer run started meanwhile */
+  const setValidatorError = (id: number, error: unknown) => {
+    if (id !== stateRef.current.latest) return;
+    batch(() => {
+      formErrors$.set([error instanceof Error ? error.message : String(error)]);
+      isValid$.set(false);
+    });
+  };
+
+  /** Updates the errors on the branches of `paths` (all when `null`), except those of `skip` */
+  const setErrors = (fields: FormErrors, paths: string[] | null, skip: string[] = []) => {
+    const errors = errors$.peek();
+    for (const key of new Set([...Object.keys(errors), ...Object.keys(fields)])) {
+      if (paths && !paths.some((path) => onBranch(key, path))) continue;
+      if (skip.some((path) => onBranch(key, path))) continue;
+      const messages = fields[key];
+      if (!messages) errors$[key].delete();
+      else if (messages.join("\n") !== errors[key]?.join("\n")) errors$[key].set(messages);
+    }
+  };
+
+  const validatePaths = async (paths: string[]) => {
+    const state = stateRef.current;
+    const id = ++state.latest;
+    for (const path of paths) state.byPath.set(path, id);
+    let result: StandardSchemaV1.Result<unknown>;
+    try {
+      result = await validateValue();
+    } catch (error) {
+      setValidatorError(id, error);
+      return;
+    }
+    const grouped = groupIssues(result.issues);
+    const current = paths.filter((path) => state.byPath.get(path) === id && id > state.all);
+    batch(() => {
+      if (current.length) setErrors(grouped.fields, current);
+      if (id === state.latest) {
+        formErrors$.set(grouped.form);
+        isValid$.set(!result.issues);
+      }
+    });
+  };
+
+  const validateAll = async () => {
+    const state = stateRef.current;
+    const id = ++state.latest;
+    state.all = id;
+    let result: StandardSchemaV1.Result<unknown>;
+    try {
+      result = await validateValue();
+    } catch (error) {
+      setValidatorError(id, error);
+      throw error;
+    }
+    const grouped = groupIssues(result.issues);
+    // Paths validated again after this run started keep their newer errors
+    const newer = [...state.byPath].filter(([, pathId]) => pathId > id).map(([path]) => path);
+    batch(() => {
+      setErrors(grouped.fields, null, newer);
+      if (id === state.latest) {
+        formErrors$.set(grouped.form);
+        isValid$.set(!result.issues);
+      }
+    });
+    return result;
+  };
+
+  const updateDirty = (paths: string[]) => {
+    const { initial } = stateRef.current;
+    const value = value$.peek();
+    batch(() => {
+      for (const path of paths) {
+        const changed = new Set<string>();
+        diffLeaves(getAt(initial, path), getAt(value, path), path, changed);
+        for (const key of Object.keys(dirty$.peek())) {
+          if (onBranch(key, path) && !changed.has(key)) dirty$[key].delete();
+        }
+        for (const key of changed) dirty$[key].set(true);
+      }
+    });
+  };
+
+  useMount(() => {
+    const state = stateRef.current;
+    state.initial = clonePlainData(value$.peek());
+    const id = ++state.latest;
+    validateValue().then(
+      (result) => {
+        if (id === state.latest) isValid$.set(!result.issues);
+      },
+      (error) => setValidatorError(id, error)
+    );
+    return value$.onChange(({ changes }) => {
+      const paths = [...new Set(changes.map((change) => change.path.join(".")))];
+      updateDirty(paths);
+      void validatePaths(paths);
+    });
+  });
+
+  const handleSubmit: UseFormReturn<TSchema>["handleSubmit"] =
+    (onValid, onInvalid) => async (event) => {
+      event?.preventDefault?.();
+      isSubmitting$.set(true);
+      try {
+        const result = await validateAll();
+        if (result.issues) await onInvalid?.(errors$.peek(), formErrors$.peek());
+        else await onValid(result.value as StandardSchemaV1.InferOutput<TSchema>);
+      } finally {
+        isSubmitting$.set(false);
+      }
+    };
+
+  return {
+    errors$,
+    formErrors$,
+    touched$,
+    dirty$,
+    isValid$,
+    isSubmitting$,
+    touch: (path) => touched$[path].set(true),
+    validate: async () => !(await validateAll()).issues,
+    handleSubmit,
+  };
+}
@@ -0,0 +1,76 @@
+"use client";
+import { useMemo, type ReactNode } from "react";
+import type { DehydratedState, HydrateOptions } from "@tanstack/query-core";
+import { useQueryClient } from "./useQueryClient";
+import { hydrate } from "./hydration";
+import { useIsomorphicLayoutEffect } from "../shared/useIsomorphicLayoutEffect";
+
+export interface HydrationBoundaryProps {
+  /** Output of `dehydrate(queryClient)` on the server. */
+  state: DehydratedState | null | undefined;
+  options?: HydrateOptions;
+  children?: ReactNode;
+}
+
+/**
+ * Hydrates server-fetched queries into the QueryClient from context, with the same semantics
+ * as `@tanstack/react-query`'s HydrationBoundary.
+ *
+ * Queries that are not in the cache yet are hydrated during render, so hooks below the boundary
+ * read them on their first render — on the server and on the client alike, so markup matches.
+ * Newer data for queries that already exist is hydrated in an effect, to avoid updating other
+ * components while rendering.
+ *
+ * @example
+ * ```tsx
+ * // Server
+ * const queryClient = new QueryClient()
+ * await queryClient.prefetchQuery({ queryKey: ['users', '1'], queryFn: () => fetchUser('1') })
+ * const dehydratedState = dehydrate(queryClient)
+ *
+ * // Shared component tree
+ * <QueryClientProvider client={queryClient}>
+ *   <HydrationBoundary state={dehydratedState}>
+ *     <UserProfile />
+ *   </HydrationBoundary>
+ * </QueryClientProvider>
+ * ```
+ */
+export function HydrationBoundary({ state, options, children }: HydrationBoundaryProps) {
+  const queryClient = useQueryClient();
+
+  const hydrationQueue = useMemo(() => {
+    if (!state || typeof state !== "object") return undefined;
+
+    const queryCache = queryClient.getQueryCache();
+    const newQueries: DehydratedState["queries"] = [];
+    const existingQueries: DehydratedState["queries"] = [];
+
+    for (const dehydratedQuery of state.queries ?? []) {
+      const existingQuery = queryCache.get(dehydratedQuery.queryHash);
+      if (!existingQuery) {
+        newQueries.push(dehydratedQuery);
+      } else if (dehydratedQuery.state.dataUpdatedAt > existingQuery.state.dataUpdatedAt) {
+        existingQueries.push(dehydratedQuery);
+      }
+    }
+
+    if (newQueries.length > 0) {
+      // Cache-only write: nothing observes these queries yet
+      hydrate(queryClient, { mutations: [], queries: newQueries }, options);
+    }
+    return existingQueries.length > 0 ? existingQueries : undefined;
+    // Re-hydrating because of a new `options` identity would be wasted work
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queryClient, state]);
+
+  // Layout effect: hydrated before the hooks below subscribe in their (passive) mount effects, so
+  // they do not refetch the data being replaced. Isomorphic, as it would warn on the server.
+  useIsomorphicLayoutEffect(() => {
+    if (hydrationQueue) {
+      hydrate(queryClient, { mutations: [], queries: hydrationQueue }, options);
+    }
+  }, [queryClient, hydrationQueue]);
+
+  return <>{children}</>;
+}
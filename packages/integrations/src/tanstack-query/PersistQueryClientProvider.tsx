@@ -0,0 +1,82 @@
+"use client";
+import { useLayoutEffect, useMemo, useRef, type ReactNode } from "react";
+import { QueryClientProvider } from "./QueryClientProvider";
+import { IsRestoringContext } from "./isRestoring";
+import { persistQueryClient, type PersistQueryClientOptions } from "./persistQueryClient";
+import type { QueryClient } from "@tanstack/query-core";
+
+export interface PersistQueryClientProviderProps {
+  client: QueryClient;
+  persistOptions: Omit<PersistQueryClientOptions, "queryClient">;
+  /** Called once the persisted cache has been restored. */
+  onSuccess?: () => void;
+  children: ReactNode;
+}
+
+/**
+ * QueryClientProvider that restores the cache from storage and keeps it persisted.
+ *
+ * With a synchronous storage (e.g. localStorage) the cache is restored while the provider
+ * renders, so children see the persisted data on their first render. With an asynchronous
+ * one (e.g. IndexedDB) query hooks wait for the restore before subscribing, so they do not
+ * fetch data that is about to be restored. `useIsRestoring()` exposes the restoring state.
+ *
+ * @example
+ * ```tsx
+ * import { ObservablePersistLocalStorage } from '@legendapp/state/persist-plugins/local-storage'
+ * import { PersistQueryClientProvider } from '@usels/integrations'
+ *
+ * function App() {
+ *   return (
+ *     <PersistQueryClientProvider
+ *       client={queryClient}
+ *       persistOptions={{
+ *         persist: { name: 'app-cache', plugin: ObservablePersistLocalStorage },
+ *         buster: APP_VERSION,
+ *       }}
+ *     >
+ *       <YourApp />
+ *     </PersistQueryClientProvider>
+ *   )
+ * }
+ * ```
+ */
+export function PersistQueryClientProvider({
+  client,
+  persistOptions,
+  onSuccess,
+  children,
+}: PersistQueryClientProviderProps) {
+  // Latest onSuccess without restarting the persister on every render
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+
+  // Restore during render (once per client) so a synchronous storage is hydrated before
+  // any child renders. persistOptions are read once: a new object on every render must not
+  // restore the cache again
+  const persister = useMemo(
+    () => persistQueryClient({ ...persistOptions, queryClient: client }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [client]
+  );
+
+  useLayoutEffect(() => {
+    let active = true;
+    void persister.restored.then(() => {
+      if (active) onSuccessRef.current?.();
+    });
+    const unsubscribe = persister.subscribe();
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [persister]);
+
+  return (
+    <QueryClientProvider client={client}>
+      <IsRestoringContext.Provider value={persister.isRestoring$}>
+        {children}
+      </IsRestoringContext.Provider>
+    </QueryClientProvider>
+  );
+}
@@ -1,4 +1,5 @@
 "use client";
+import { useObserveEffect } from "@legendapp/state/react";
 import { createContext, ReactNode } from "react";
 import { QueryClient } from "@tanstack/query-core";
 
@@ -13,7 +14,11 @@ export interface QueryClientProviderProps {
 }
 
 /**
- * Provider component that makes QueryClient available to hooks
+ * Provider component that makes QueryClient available to hooks.
+ *
+ * Like react-query's provider, it mounts the client (window focus / reconnect refetching) while
+ * rendered. To share the client with `@tanstack/react-query` hooks, use the provider of
+ * `@usels/integrations/react-query` instead.
  *
  * @example
  * ```tsx
@@ -32,6 +37,15 @@ export interface QueryClientProviderProps {
  * ```
  */
 export function QueryClientProvider({ client, children }: QueryClientProviderProps) {
+  // After commit, so server renders do not mount the client; re-runs when `client` changes
+  useObserveEffect(
+    (e) => {
+      client.mount();
+      e.onCleanup = () => client.unmount();
+    },
+    [client]
+  );
+
   return <QueryClientContext.Provider value={client}>{children}</QueryClientContext.Provider>;
 }
 
@@ -0,0 +1,89 @@
+"use client";
+import { createContext, useContext, useMemo, type ReactNode } from "react";
+
+export interface QueryErrorResetBoundaryValue {
+  /** Clears the reset flag. Called by suspense hooks once they have committed. */
+  clearReset: () => void;
+  /** Whether `reset()` was called since the last commit. */
+  isReset: () => boolean;
+  /** Lets queries that threw to an error boundary fetch again on their next mount. */
+  reset: () => void;
+}
+
+function createValue(): QueryErrorResetBoundaryValue {
+  let isReset = false;
+  return {
+    clearReset: () => {
+      isReset = false;
+    },
+    reset: () => {
+      isReset = true;
+    },
+    isReset: () => isReset,
+  };
+}
+
+/**
+ * React Context for the error reset state. The default value is shared by every
+ * hook rendered outside a QueryErrorResetBoundary.
+ */
+const QueryErrorResetBoundaryContext = createContext<QueryErrorResetBoundaryValue>(createValue());
+
+export interface QueryErrorResetBoundaryProps {
+  children: ReactNode | ((value: QueryErrorResetBoundaryValue) => ReactNode);
+}
+
+/**
+ * Scopes the error reset state of suspense queries, with the same semantics as
+ * `@tanstack/react-query`'s QueryErrorResetBoundary.
+ *
+ * A query whose error was thrown to an error boundary does not refetch when the boundary
+ * re-renders it — otherwise it would throw the same error again in a loop. Calling `reset()`
+ * (typically from the error boundary's reset handler) lets those queries retry on their next mount.
+ *
+ * @example
+ * ```tsx
+ * import { QueryErrorResetBoundary } from '@usels/integrations'
+ * import { ErrorBoundary } from 'react-error-boundary'
+ *
+ * function App() {
+ *   return (
+ *     <QueryErrorResetBoundary>
+ *       {({ reset }) => (
+ *         <ErrorBoundary
+ *           onReset={reset}
+ *           fallbackRender={({ resetErrorBoundary }) => (
+ *             <button onClick={resetErrorBoundary}>Try again</button>
+ *           )}
+ *         >
+ *           <Suspense fallback={<Spinner />}>
+ *             <UserProfile />
+ *           </Suspense>
+ *         </ErrorBoundary>
+ *       )}
+ *     </QueryErrorResetBoundary>
+ *   )
+ * }
+ * ```
+ */
+export function QueryErrorResetBoundary({ children }: QueryErrorResetBoundaryProps) {
+  const value = useMemo(() => createValue(), []);
+  return (
+    <QueryErrorResetBoundaryContext.Provider value={value}>
+      {typeof children === "function" ? children(value) : children}
+    </QueryErrorResetBoundaryContext.Provider>
+  );
+}
+
+/**
+ * Hook to retrieve the nearest QueryErrorResetBoundary value.
+ *
+ * @example
+ * ```tsx
+ * const { reset } = useQueryErrorResetBoundary()
+ * <ErrorBoundary onReset={reset}>...</ErrorBoundary>
+ * ```
+ */
+export function useQueryErrorResetBoundary(): QueryErrorResetBoundaryValue {
+  return useContext(QueryErrorResetBoundaryContext);
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot } from "react-dom/client";
+import type { ReactNode } from "react";
+import { QueryClient, type DehydratedState } from "@tanstack/query-core";
+import { QueryClientProvider } from "../QueryClientProvider";
+import { HydrationBoundary } from "../HydrationBoundary";
+import { dehydrate, hydrate } from "../hydration";
+import { useQuery } from "../useQuery";
+import { createTestQueryClient } from "../../__tests__/test-utils";
+
+async function prefetchOnServer(data: string): Promise<DehydratedState> {
+  const serverClient = new QueryClient();
+  await serverClient.prefetchQuery({
+    queryKey: ["users", "1"],
+    queryFn: () => Promise.resolve(data),
+  });
+  // Round-trip through JSON like a real server → client transfer
+  return JSON.parse(JSON.stringify(dehydrate(serverClient)));
+}
+
+function createHydrationWrapper(queryClient: QueryClient, state: DehydratedState | undefined) {
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <HydrationBoundary state={state}>{children}</HydrationBoundary>
+    </QueryClientProvider>
+  );
+}
+
+describe("HydrationBoundary", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should show hydrated data in useQuery on the first render", async () => {
+    const state = await prefetchOnServer("Ada");
+    const queryClient = createTestQueryClient();
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+    const renders: Array<[string, unknown]> = [];
+
+    renderHook(
+      () => {
+        const user$ = useQuery({ queryKey: ["users", "1"], queryFn, staleTime: 60_000 });
+        renders.push([user$.status.peek(), user$.data.peek()]);
+        return user$;
+      },
+      { wrapper: createHydrationWrapper(queryClient, state) }
+    );
+
+    expect(renders[0]).toEqual(["success", "Ada"]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should not refetch when the QueryClient defaults make the data fresh", async () => {
+    const state = await prefetchOnServer("Ada");
+    const queryClient = new QueryClient({ defaultOptions: { queries: { staleTime: 60_000 } } });
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+
+    const { result } = renderHook(() => useQuery({ queryKey: ["users", "1"], queryFn }), {
+      wrapper: createHydrationWrapper(queryClient, state),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(result.current.data.get()).toBe("Ada");
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should hydrate server markup without mismatches", async () => {
+    const state = await prefetchOnServer("Ada");
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+
+    function User() {
+      const user$ = useQuery({ queryKey: ["users", "1"], queryFn, staleTime: 60_000 });
+      return <p>{`${user$.status.get()}:${user$.data.get()}`}</p>;
+    }
+    const app = (queryClient: QueryClient) => (
+      <QueryClientProvider client={queryClient}>
+        <HydrationBoundary state={state}>
+          <User />
+        </HydrationBoundary>
+      </QueryClientProvider>
+    );
+
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(app(new QueryClient()));
+    expect(container.innerHTML).toBe("<p>success:Ada</p>");
+
+    const onRecoverableError = vi.fn();
+    const root = await act(async () =>
+      hydrateRoot(container, app(new QueryClient()), { onRecoverableError })
+    );
+
+    expect(container.innerHTML).toBe("<p>success:Ada</p>");
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(queryFn).not.toHaveBeenCalled();
+    act(() => root.unmount());
+  });
+
+  it("should update existing queries with newer hydrated data", async () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(["users", "1"], "Stale", { updatedAt: 1 });
+    const state = await prefetchOnServer("Ada");
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+
+    const { result } = renderHook(
+      () => useQuery({ queryKey: ["users", "1"], queryFn, staleTime: 60_000 }),
+      { wrapper: createHydrationWrapper(queryClient, state) }
+    );
+
+    await waitFor(() => expect(result.current.data.get()).toBe("Ada"));
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should keep existing queries that are newer than the hydrated data", async () => {
+    const state = await prefetchOnServer("Ada");
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(["users", "1"], "Fresh", { updatedAt: Date.now() + 1000 });
+
+    const { result } = renderHook(
+      () =>
+        useQuery({
+          queryKey: ["users", "1"],
+          queryFn: vi.fn<() => Promise<string>>(),
+          staleTime: 60_000,
+        }),
+      { wrapper: createHydrationWrapper(queryClient, state) }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(result.current.data.get()).toBe("Fresh");
+  });
+
+  it("should ignore a missing state", () => {
+    const queryClient = createTestQueryClient();
+
+    expect(() => hydrate(queryClient, undefined)).not.toThrow();
+    expect(queryClient.getQueryCache().getAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { renderToString } from "react-dom/server";
+import { QueryClient } from "@tanstack/query-core";
+import { QueryClientProvider } from "../QueryClientProvider";
+import { HydrationBoundary } from "../HydrationBoundary";
+import { dehydrate } from "../hydration";
+import { useQuery } from "../useQuery";
+
+function User({ queryFn }: { queryFn: () => Promise<string> }) {
+  const user$ = useQuery({ queryKey: ["users", "1"], queryFn, staleTime: 60_000 });
+  return <p>{`${user$.status.get()}:${user$.data.get() ?? "none"}`}</p>;
+}
+
+describe("HydrationBoundary (server render)", () => {
+  it("should render prefetched data with success status", async () => {
+    const serverClient = new QueryClient();
+    await serverClient.prefetchQuery({
+      queryKey: ["users", "1"],
+      queryFn: () => Promise.resolve("Ada"),
+    });
+    const dehydratedState = JSON.parse(JSON.stringify(dehydrate(serverClient)));
+
+    const queryClient = new QueryClient();
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+
+    const html = renderToString(
+      <QueryClientProvider client={queryClient}>
+        <HydrationBoundary state={dehydratedState}>
+          <User queryFn={queryFn} />
+        </HydrationBoundary>
+      </QueryClientProvider>
+    );
+
+    expect(html).toContain("<p>success:Ada</p>");
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should render the pending state without dehydrated state", () => {
+    const queryClient = new QueryClient();
+    const queryFn = vi.fn().mockResolvedValue("Grace");
+
+    const html = renderToString(
+      <QueryClientProvider client={queryClient}>
+        <HydrationBoundary state={undefined}>
+          <User queryFn={queryFn} />
+        </HydrationBoundary>
+      </QueryClientProvider>
+    );
+
+    expect(html).toContain("<p>pending:none</p>");
+  });
+
+  it("should not warn during the server render", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(["users", "1"], "Stale", { updatedAt: 1 });
+
+    renderToString(
+      <QueryClientProvider client={queryClient}>
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <User queryFn={vi.fn().mockResolvedValue("Grace")} />
+        </HydrationBoundary>
+      </QueryClientProvider>
+    );
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
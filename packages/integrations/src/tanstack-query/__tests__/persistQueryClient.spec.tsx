@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import { useSelector } from "@legendapp/state/react";
+import { QueryClient } from "@tanstack/query-core";
+import { PersistQueryClientProvider } from "../PersistQueryClientProvider";
+import { persistQueryClient, ObservablePersistMemory } from "../persistQueryClient";
+import { useIsRestoring } from "../isRestoring";
+import { useQuery } from "../useQuery";
+import { createTestQueryClient } from "../../__tests__/test-utils";
+
+/** Memory plugin whose tables can be held back until `release()`, like IndexedDB. */
+class DeferredMemoryPlugin extends ObservablePersistMemory {
+  private pending: Promise<void> | undefined;
+  private resolvePending = () => {};
+  hold() {
+    this.pending = new Promise((resolve) => {
+      this.resolvePending = resolve;
+    });
+  }
+  release() {
+    this.pending = undefined;
+    this.resolvePending();
+  }
+  loadTable() {
+    return this.pending;
+  }
+}
+
+/** Writes a cache with one successful query into `plugin`, like a previous session. */
+async function seedStorage(plugin: ObservablePersistMemory, options: { buster?: string } = {}) {
+  const queryClient = createTestQueryClient();
+  const persister = persistQueryClient({
+    queryClient,
+    persist: { name: "cache", plugin },
+    throttleTime: 0,
+    buster: options.buster,
+  });
+  const unsubscribe = persister.subscribe();
+  await queryClient.prefetchQuery({
+    queryKey: ["todos"],
+    queryFn: () => Promise.resolve(["persisted"]),
+    gcTime: Infinity,
+  });
+  await waitFor(() => expect(plugin.getTable("cache", {})).toHaveProperty("clientState"));
+  unsubscribe();
+}
+
+describe("persistQueryClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should write the dehydrated cache to storage", async () => {
+    const plugin = new ObservablePersistMemory();
+
+    await seedStorage(plugin, { buster: "v1" });
+
+    const stored = plugin.getTable("cache", {});
+    expect(stored.buster).toBe("v1");
+    expect(stored.timestamp).toBeGreaterThan(0);
+    expect(stored.clientState.queries[0].queryKey).toEqual(["todos"]);
+    expect(stored.clientState.queries[0].state.data).toEqual(["persisted"]);
+  });
+
+  it("should restore a synchronous storage before returning", async () => {
+    const plugin = new ObservablePersistMemory();
+    await seedStorage(plugin);
+    const queryClient = createTestQueryClient();
+
+    const persister = persistQueryClient({ queryClient, persist: { name: "cache", plugin } });
+
+    expect(persister.isRestoring$.peek()).toBe(false);
+    expect(queryClient.getQueryData(["todos"])).toEqual(["persisted"]);
+  });
+
+  it("should throttle writes", async () => {
+    vi.useFakeTimers();
+    try {
+      const plugin = new ObservablePersistMemory();
+      const set = vi.spyOn(plugin, "set");
+      // Default gcTime: the test client's gcTime 0 would drop the unobserved queries
+      const queryClient = new QueryClient();
+      const persister = persistQueryClient({
+        queryClient,
+        persist: { name: "cache", plugin },
+        throttleTime: 1000,
+      });
+      persister.subscribe();
+      await vi.advanceTimersByTimeAsync(0);
+
+      queryClient.setQueryData(["a"], 1);
+      queryClient.setQueryData(["b"], 2);
+      queryClient.setQueryData(["c"], 3);
+      expect(set).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(plugin.getTable("cache", {}).clientState.queries).toHaveLength(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should discard a cache written with another buster", async () => {
+    const plugin = new ObservablePersistMemory();
+    await seedStorage(plugin, { buster: "v1" });
+    const queryClient = createTestQueryClient();
+
+    persistQueryClient({ queryClient, persist: { name: "cache", plugin }, buster: "v2" });
+
+    expect(queryClient.getQueryData(["todos"])).toBeUndefined();
+    await waitFor(() => expect(plugin.getTable("cache", undefined as never)).toBeUndefined());
+  });
+
+  it("should discard a cache older than maxAge", async () => {
+    const plugin = new ObservablePersistMemory();
+    await seedStorage(plugin);
+    const queryClient = createTestQueryClient();
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 2000);
+
+    persistQueryClient({ queryClient, persist: { name: "cache", plugin }, maxAge: 1000 });
+
+    vi.mocked(Date.now).mockRestore();
+    expect(queryClient.getQueryData(["todos"])).toBeUndefined();
+  });
+});
+
+describe("PersistQueryClientProvider", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should render persisted data on the first render without fetching", async () => {
+    const plugin = new ObservablePersistMemory();
+    await seedStorage(plugin);
+    const queryClient = createTestQueryClient();
+    const queryFn = vi.fn().mockResolvedValue(["fresh"]);
+    const rendered = vi.fn();
+
+    function Todos() {
+      const todos$ = useQuery({ queryKey: ["todos"], queryFn, staleTime: Infinity });
+      const data = useSelector(() => todos$.data.get()) as string[] | undefined;
+      rendered(data);
+      return <div>{data?.join(",")}</div>;
+    }
+
+    render(
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{ persist: { name: "cache", plugin } }}
+      >
+        <Todos />
+      </PersistQueryClientProvider>
+    );
+
+    expect(rendered.mock.calls[0][0]).toEqual(["persisted"]);
+    await waitFor(() => expect(screen.getByText("persisted")).toBeInTheDocument());
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should wait for an asynchronous restore before fetching", async () => {
+    const plugin = new DeferredMemoryPlugin();
+    await seedStorage(plugin);
+    const queryClient = createTestQueryClient();
+    const queryFn = vi.fn().mockResolvedValue(["fresh"]);
+    const onSuccess = vi.fn();
+
+    function Todos() {
+      const isRestoring$ = useIsRestoring();
+      // gcTime keeps the query built by the observer until the restore reaches it
+      const todos$ = useQuery({
+        queryKey: ["todos"],
+        queryFn,
+        staleTime: Infinity,
+        gcTime: 60_000,
+      });
+      const isRestoring = useSelector(isRestoring$);
+      const data = useSelector(() => todos$.data.get()) as string[] | undefined;
+      if (isRestoring) return <div>restoring</div>;
+      return <div>{data?.join(",")}</div>;
+    }
+
+    plugin.hold();
+
+    render(
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{ persist: { name: "cache", plugin } }}
+        onSuccess={onSuccess}
+      >
+        <Todos />
+      </PersistQueryClientProvider>
+    );
+
+    expect(screen.getByText("restoring")).toBeInTheDocument();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queryFn).not.toHaveBeenCalled();
+
+    plugin.release();
+
+    await waitFor(() => expect(screen.getByText("persisted")).toBeInTheDocument());
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should persist cache changes made by queries", async () => {
+    const plugin = new ObservablePersistMemory();
+    const queryClient = createTestQueryClient();
+
+    function Todos() {
+      useQuery({ queryKey: ["todos"], queryFn: () => Promise.resolve(["fetched"]) });
+      return null;
+    }
+
+    render(
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{ persist: { name: "cache", plugin }, throttleTime: 0 }}
+      >
+        <Todos />
+      </PersistQueryClientProvider>
+    );
+
+    await waitFor(() =>
+      expect(plugin.getTable("cache", {})?.clientState.queries[0].state.data).toEqual(["fetched"])
+    );
+  });
+});
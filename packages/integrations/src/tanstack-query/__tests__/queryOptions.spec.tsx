@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { observable } from "@legendapp/state";
+import { skipToken } from "@tanstack/query-core";
+import { ensureQueryData, infiniteQueryOptions, queryOptions } from "../queryOptions";
+import { createTestQueryClient } from "../../__tests__/test-utils";
+
+describe("queryOptions", () => {
+  it("should return the options unchanged, Observable key parts included", () => {
+    const id$ = observable(1);
+    const queryFn = () => Promise.resolve("todo");
+
+    const options = queryOptions({ queryKey: ["todo", id$], queryFn, staleTime: 1000 });
+
+    expect(options.queryKey[1]).toBe(id$);
+    expect(options.queryFn).toBe(queryFn);
+  });
+
+  it("should return infinite query options unchanged", () => {
+    const getNextPageParam = () => undefined;
+
+    const options = infiniteQueryOptions({
+      queryKey: ["items"],
+      queryFn: () => Promise.resolve([1]),
+      initialPageParam: 0,
+      getNextPageParam,
+    });
+
+    expect(options.getNextPageParam).toBe(getNextPageParam);
+  });
+});
+
+describe("ensureQueryData", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should fetch with the current values of Observable key parts", async () => {
+    const queryClient = createTestQueryClient();
+    const id$ = observable(2);
+    const queryFn = vi.fn(({ queryKey }) => Promise.resolve(`todo ${queryKey[1]}`));
+
+    const data = await ensureQueryData(
+      queryClient,
+      queryOptions({ queryKey: ["todo", id$], queryFn, gcTime: 60_000 })
+    );
+
+    expect(data).toBe("todo 2");
+    expect(queryClient.getQueryData(["todo", 2])).toBe("todo 2");
+  });
+
+  it("should return cached data without fetching", async () => {
+    const queryClient = createTestQueryClient();
+    queryClient.setQueryData(["todo", 1], "cached");
+    const queryFn = vi.fn().mockResolvedValue("fetched");
+
+    const data = await ensureQueryData(queryClient, { queryKey: ["todo", 1], queryFn });
+
+    expect(data).toBe("cached");
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should refetch stale cached data in the background with revalidateIfStale", async () => {
+    const queryClient = createTestQueryClient();
+    await queryClient.prefetchQuery({
+      queryKey: ["todo", 1],
+      queryFn: () => "cached",
+      gcTime: 60_000,
+    });
+    const queryFn = vi.fn().mockResolvedValue("fetched");
+
+    const data = await ensureQueryData(queryClient, {
+      queryKey: ["todo", 1],
+      queryFn,
+      gcTime: 60_000,
+      revalidateIfStale: true,
+    });
+
+    expect(data).toBe("cached");
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not fetch a skipToken query", async () => {
+    const queryClient = createTestQueryClient();
+
+    await expect(
+      ensureQueryData(queryClient, { queryKey: ["todo", 1], queryFn: skipToken })
+    ).rejects.toThrow("the query is disabled");
+
+    queryClient.setQueryData(["todo", 1], "cached");
+    await expect(
+      ensureQueryData(queryClient, { queryKey: ["todo", 1], queryFn: skipToken })
+    ).resolves.toBe("cached");
+  });
+
+  it("should not fetch a query whose key is not resolved yet", async () => {
+    const queryClient = createTestQueryClient();
+    const id$ = observable<number | null>(null);
+    const queryFn = vi.fn().mockResolvedValue("todo");
+
+    await expect(
+      ensureQueryData(queryClient, {
+        queryKey: ["todo", id$],
+        queryFn,
+        enabledWhenKeyResolved: true,
+      })
+    ).rejects.toThrow("the query is disabled");
+    expect(queryFn).not.toHaveBeenCalled();
+  });
+
+  it("should pass only fetch options to the QueryClient", async () => {
+    const queryClient = createTestQueryClient();
+    const ensure = vi.spyOn(queryClient, "ensureQueryData");
+    const select = (data: string) => data.length;
+
+    await ensureQueryData(queryClient, {
+      queryKey: ["todo", 1],
+      queryFn: () => Promise.resolve("todo"),
+      select,
+      refetchInterval: 1000,
+      staleTime: 5000,
+    });
+
+    const passed = ensure.mock.calls[0][0];
+    expect(passed).toMatchObject({ queryKey: ["todo", 1], staleTime: 5000 });
+    expect(passed).not.toHaveProperty("select");
+    expect(passed).not.toHaveProperty("refetchInterval");
+    expect(passed).not.toHaveProperty("enabled");
+  });
+});
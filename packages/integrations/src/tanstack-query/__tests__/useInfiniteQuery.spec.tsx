@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { renderHook, waitFor } from "@testing-library/react";
+import { Component, Suspense, type ReactNode } from "react";
+import { act, render, renderHook, screen, waitFor } from "@testing-library/react";
 import { observable } from "@legendapp/state";
-import { useInfiniteQuery } from "../useInfiniteQuery";
+import { useInfiniteQuery, useSuspenseInfiniteQuery } from "../useInfiniteQuery";
 import { createWrapper } from "../../__tests__/test-utils";
 
 describe("useInfiniteQuery", () => {
@@ -449,7 +450,7 @@ describe("useInfiniteQuery", () => {
       expect(result.current.data.get()?.pages[0].items).toEqual(["sports"]);
     });
 
-    it("should use serialized queryKey for cache", async () => {
+    it("should use the resolved queryKey for cache", async () => {
       const queryFn = vi.fn().mockResolvedValue({ items: ["item1"], nextCursor: undefined });
       const { wrapper, queryClient } = createWrapper();
 
@@ -468,11 +469,167 @@ describe("useInfiniteQuery", () => {
 
       await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
 
-      // The actual cache key should be the serialized version
-      const serializedKey = JSON.stringify(["items", { status: "active" }]);
-      const cacheData = queryClient.getQueryData([serializedKey]);
+      // The cache key is the resolved plain key, not a serialized string
+      const cacheData = queryClient.getQueryData(["items", { status: "active" }]);
 
       expect(cacheData).toBeTruthy();
+      expect(queryFn.mock.calls[0][0].queryKey).toEqual(["items", { status: "active" }]);
+    });
+
+    it("should switch back to the cached page set when a key element changes", async () => {
+      const category$ = observable("a");
+      const queryFn = vi
+        .fn()
+        .mockImplementation(({ queryKey, pageParam }) =>
+          Promise.resolve({ items: [`${queryKey[1]}-${pageParam}`], next: pageParam + 1 })
+        );
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useInfiniteQuery({
+            queryKey: ["items", category$],
+            queryFn,
+            initialPageParam: 0,
+            getNextPageParam: (lastPage: any) => lastPage.next,
+            staleTime: 60_000,
+            gcTime: 60_000,
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      result.current.fetchNextPage();
+      await waitFor(() => expect(result.current.data.get()?.pages).toHaveLength(2));
+
+      act(() => {
+        category$.set("b");
+      });
+      await waitFor(() =>
+        expect(result.current.data.get()?.pages.map((p: any) => p.items[0])).toEqual(["b-0"])
+      );
+
+      act(() => {
+        category$.set("a");
+      });
+      expect(result.current.data.get()?.pages.map((p: any) => p.items[0])).toEqual(["a-0", "a-1"]);
+      // Fresh cached pages are reused: no refetch when switching back
+      expect(queryFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should apply an Observable maxPages", async () => {
+      const maxPages$ = observable(2);
+      const queryFn = vi
+        .fn()
+        .mockImplementation(({ pageParam }) => Promise.resolve({ page: pageParam }));
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useInfiniteQuery({
+            queryKey: ["pages"],
+            queryFn,
+            initialPageParam: 0,
+            getNextPageParam: (lastPage: any) => lastPage.page + 1,
+            maxPages: maxPages$,
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      result.current.fetchNextPage();
+      await waitFor(() => expect(result.current.data.get()?.pageParams).toEqual([0, 1]));
+      result.current.fetchNextPage();
+      await waitFor(() => expect(result.current.data.get()?.pageParams).toEqual([1, 2]));
+
+      act(() => {
+        maxPages$.set(3);
+      });
+      result.current.fetchNextPage();
+      await waitFor(() => expect(result.current.data.get()?.pageParams).toEqual([1, 2, 3]));
+    });
+
+    it("should recompute hasNextPage when getNextPageParam changes", async () => {
+      const queryFn = vi.fn().mockResolvedValue({ items: ["item1"], nextCursor: 1 });
+      const { wrapper } = createWrapper();
+
+      const { result, rerender } = renderHook(
+        ({ paginate }: { paginate: boolean }) =>
+          useInfiniteQuery({
+            queryKey: ["items"],
+            queryFn,
+            initialPageParam: 0,
+            getNextPageParam: (lastPage: any) => (paginate ? lastPage.nextCursor : undefined),
+          }),
+        { wrapper, initialProps: { paginate: false } }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      expect(result.current.hasNextPage.get()).toBe(false);
+
+      rerender({ paginate: true });
+
+      await waitFor(() => expect(result.current.hasNextPage.get()).toBe(true));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should react to an Observable enabled field", async () => {
+      const enabled$ = observable(false);
+      const queryFn = vi.fn().mockResolvedValue({ items: [], nextCursor: undefined });
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useInfiniteQuery({
+            queryKey: ["items"],
+            queryFn,
+            initialPageParam: 0,
+            getNextPageParam: (lastPage: any) => lastPage.nextCursor,
+            enabled: enabled$,
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.isEnabled.get()).toBe(false);
+      await act(async () => {});
+      expect(queryFn).not.toHaveBeenCalled();
+
+      act(() => {
+        enabled$.set(true);
+      });
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait for nullish key parts with enabledWhenKeyResolved", async () => {
+      const category$ = observable<string | undefined>(undefined);
+      const queryFn = vi.fn().mockResolvedValue({ items: [], nextCursor: undefined });
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useInfiniteQuery({
+            queryKey: ["items", category$],
+            queryFn,
+            initialPageParam: 0,
+            getNextPageParam: (lastPage: any) => lastPage.nextCursor,
+            enabledWhenKeyResolved: true,
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.isEnabled.get()).toBe(false);
+      await act(async () => {});
+      expect(queryFn).not.toHaveBeenCalled();
+
+      act(() => {
+        category$.set("books");
+      });
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      expect(queryFn.mock.calls[0][0].queryKey).toEqual(["items", "books"]);
+      expect(result.current.isEnabled.get()).toBe(true);
     });
   });
 
@@ -584,3 +741,90 @@ describe("useInfiniteQuery", () => {
     });
   });
 });
+
+class ErrorBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+  render() {
+    return this.state.error ? <div>caught: {this.state.error.message}</div> : this.props.children;
+  }
+}
+
+describe("useSuspenseInfiniteQuery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should suspend until the first page is loaded", async () => {
+    const queryFn = vi
+      .fn()
+      .mockImplementation(({ pageParam }) =>
+        Promise.resolve({ items: [`item-${pageParam}`], nextCursor: pageParam + 1 })
+      );
+    const { wrapper: Wrapper } = createWrapper();
+    const rendered = vi.fn();
+
+    function Content() {
+      const query$ = useSuspenseInfiniteQuery({
+        queryKey: ["feed"],
+        queryFn,
+        initialPageParam: 0,
+        getNextPageParam: (lastPage: any) => lastPage.nextCursor,
+      });
+      rendered(query$.status.peek(), query$);
+      return <div>{(query$.data.pages.peek()[0] as any).items[0]}</div>;
+    }
+
+    render(
+      <Wrapper>
+        <Suspense fallback={<div>loading</div>}>
+          <Content />
+        </Suspense>
+      </Wrapper>
+    );
+
+    expect(screen.getByText("loading")).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByText("item-0")).toBeInTheDocument());
+    expect(rendered).not.toHaveBeenCalledWith("pending", expect.anything());
+
+    const feed$ = rendered.mock.lastCall![1];
+    act(() => {
+      feed$.fetchNextPage();
+    });
+
+    await waitFor(() => expect(feed$.data.pages.get()).toHaveLength(2));
+    expect(queryFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw a failed first page to the nearest error boundary", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const queryFn = vi.fn().mockRejectedValue(new Error("Feed failed"));
+    const { wrapper: Wrapper } = createWrapper();
+
+    function Content() {
+      const query$ = useSuspenseInfiniteQuery({
+        queryKey: ["feed"],
+        queryFn,
+        retry: false,
+        initialPageParam: 0,
+        getNextPageParam: () => null,
+      });
+      return <div>{query$.data.pages.get().length}</div>;
+    }
+
+    render(
+      <Wrapper>
+        <ErrorBoundary>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </ErrorBoundary>
+      </Wrapper>
+    );
+
+    await waitFor(() => expect(screen.getByText("caught: Feed failed")).toBeInTheDocument());
+    consoleError.mockRestore();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { renderHook, waitFor } from "@testing-library/react";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
 import { useMutation } from "../useMutation";
 import { createWrapper } from "../../__tests__/test-utils";
 
@@ -460,6 +461,134 @@ describe("useMutation", () => {
     });
   });
 
+  describe("Reactive Options", () => {
+    it("should resolve Observable elements inside mutationKey", async () => {
+      const { wrapper, queryClient } = createWrapper();
+      const listId$ = observable(1);
+
+      const { result } = renderHook(
+        () =>
+          useMutation({
+            mutationKey: ["todos", listId$],
+            mutationFn: async (title: string) => title,
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate("a");
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      expect(queryClient.getMutationCache().find({ mutationKey: ["todos", 1] })).toBeDefined();
+
+      act(() => {
+        listId$.set(2);
+      });
+
+      result.current.mutate("b");
+      await waitFor(() => expect(result.current.data.get()).toBe("b"));
+      expect(
+        queryClient.getMutationCache().find({ mutationKey: ["todos", 2], exact: true })
+      ).toBeDefined();
+    });
+
+    it("should reset the state when the resolved mutationKey changes", async () => {
+      const { wrapper } = createWrapper();
+      const listId$ = observable(1);
+
+      const { result } = renderHook(
+        () =>
+          useMutation({
+            mutationKey: ["todos", listId$],
+            mutationFn: async (title: string) => title,
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate("a");
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => {
+        listId$.set(2);
+      });
+
+      expect(result.current.status.get()).toBe("idle");
+      expect(result.current.data.get()).toBeUndefined();
+    });
+
+    it("should apply an Observable retry value changed after mount", async () => {
+      const { wrapper } = createWrapper();
+      const retry$ = observable<number | boolean>(false);
+      const mutationFn = vi.fn(async (): Promise<void> => {
+        throw new Error("failed");
+      });
+
+      const { result } = renderHook(
+        () => useMutation({ mutationFn, retry: retry$, retryDelay: 0 }),
+        { wrapper }
+      );
+
+      act(() => {
+        retry$.set(2);
+      });
+
+      result.current.mutate();
+      await waitFor(() => expect(result.current.isError.get()).toBe(true));
+      expect(mutationFn).toHaveBeenCalledTimes(3);
+      expect(result.current.failureCount.get()).toBe(3);
+    });
+
+    it("should pass meta, gcTime and scope to the mutation", async () => {
+      const { wrapper, queryClient } = createWrapper();
+      const meta$ = observable<Record<string, unknown>>({ source: "form" });
+
+      const { result } = renderHook(
+        () =>
+          useMutation({
+            mutationKey: ["save"],
+            mutationFn: async () => "ok",
+            meta: meta$,
+            gcTime: 60_000,
+            scope: { id: "saves" },
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate();
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      const mutation = queryClient.getMutationCache().find({ mutationKey: ["save"] })!;
+      expect(mutation.meta).toEqual({ source: "form" });
+      expect(mutation.options.gcTime).toBe(60_000);
+      expect(mutation.options.scope).toEqual({ id: "saves" });
+    });
+
+    it("should run mutations sharing a scope serially", async () => {
+      const { wrapper } = createWrapper();
+      const resolvers: (() => void)[] = [];
+      const mutationFn = vi.fn(
+        () => new Promise<void>((resolve) => resolvers.push(() => resolve()))
+      );
+
+      const { result } = renderHook(
+        () => ({
+          first: useMutation({ mutationFn, scope: { id: "queue" } }),
+          second: useMutation({ mutationFn, scope: { id: "queue" } }),
+        }),
+        { wrapper }
+      );
+
+      result.current.first.mutate();
+      result.current.second.mutate();
+
+      await waitFor(() => expect(mutationFn).toHaveBeenCalledTimes(1));
+      expect(result.current.second.isPaused.get()).toBe(true);
+
+      resolvers[0]();
+      await waitFor(() => expect(mutationFn).toHaveBeenCalledTimes(2));
+      resolvers[1]();
+      await waitFor(() => expect(result.current.second.isSuccess.get()).toBe(true));
+    });
+  });
+
   describe("Cleanup", () => {
     it("should unsubscribe on unmount", async () => {
       const { wrapper } = createWrapper();
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { QueryClientProvider } from "../QueryClientProvider";
+import { useQueryClient } from "../useQueryClient";
+import { createTestQueryClient } from "../../__tests__/test-utils";
+
+describe("useQueryClient", () => {
+  it("should return the client of QueryClientProvider", () => {
+    const queryClient = createTestQueryClient();
+
+    const { result } = renderHook(() => useQueryClient(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      ),
+    });
+
+    expect(result.current).toBe(queryClient);
+  });
+
+  it("should throw outside of any provider", () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(() => renderHook(() => useQueryClient())).toThrow(
+      "useQueryClient must be used within a QueryClientProvider"
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should mount the client while rendered", async () => {
+    const queryClient = createTestQueryClient();
+    const mount = vi.spyOn(queryClient, "mount");
+    const unmount = vi.spyOn(queryClient, "unmount");
+
+    const { unmount: unmountHook } = renderHook(() => useQueryClient(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      ),
+    });
+
+    expect(mount).toHaveBeenCalledTimes(1);
+    expect(unmount).not.toHaveBeenCalled();
+
+    unmountHook();
+    await waitFor(() => expect(unmount).toHaveBeenCalledTimes(1));
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  dehydrate as dehydrateCore,
+  hydrate as hydrateCore,
+  type DehydrateOptions,
+  type DehydratedState,
+  type HydrateOptions,
+  type QueryClient,
+} from "@tanstack/query-core";
+
+/**
+ * Serializes the QueryClient cache on the server, to be passed to `HydrationBoundary`
+ * (or `hydrate`) on the client. Wraps query-core's `dehydrate`; by default only
+ * successful queries are included.
+ *
+ * @example
+ * ```tsx
+ * const queryClient = new QueryClient()
+ * await queryClient.prefetchQuery({ queryKey: ['users', '1'], queryFn: () => fetchUser('1') })
+ * const dehydratedState = dehydrate(queryClient)
+ * ```
+ */
+export function dehydrate(queryClient: QueryClient, options?: DehydrateOptions): DehydratedState {
+  return dehydrateCore(queryClient, options);
+}
+
+/**
+ * Writes dehydrated server state into the QueryClient cache. Wraps query-core's `hydrate`;
+ * a missing state (`null`/`undefined`, e.g. nothing was prefetched) is ignored.
+ *
+ * Queries already in the cache are only overwritten by newer data.
+ */
+export function hydrate(
+  queryClient: QueryClient,
+  state: DehydratedState | null | undefined,
+  options?: HydrateOptions
+): void {
+  if (!state || typeof state !== "object") return;
+  hydrateCore(queryClient, state, options);
+}
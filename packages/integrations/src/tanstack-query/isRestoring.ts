@@ -0,0 +1,23 @@
+"use client";
+import { observable, type Observable } from "@legendapp/state";
+import { createContext, useContext } from "react";
+
+/**
+ * React Context for the restoring state of a persisted cache.
+ * Outside a PersistQueryClientProvider nothing is ever restoring.
+ */
+export const IsRestoringContext = createContext<Observable<boolean>>(observable(false));
+
+/**
+ * Hook that returns whether a PersistQueryClientProvider is still restoring the persisted
+ * cache, as an Observable. Query hooks wait for it to turn `false` before subscribing.
+ *
+ * @example
+ * ```tsx
+ * const isRestoring$ = useIsRestoring()
+ * if (isRestoring$.get()) return <Splash />
+ * ```
+ */
+export function useIsRestoring(): Observable<boolean> {
+  return useContext(IsRestoringContext);
+}
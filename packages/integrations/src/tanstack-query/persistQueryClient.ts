@@ -0,0 +1,191 @@
+import { observable, when, type Observable } from "@legendapp/state";
+import { syncObservable, type PersistOptions } from "@legendapp/state/sync";
+import { ObservablePersistLocalStorageBase } from "@legendapp/state/persist-plugins/local-storage";
+import type {
+  DehydratedState,
+  DehydrateOptions,
+  HydrateOptions,
+  QueryClient,
+} from "@tanstack/query-core";
+import { dehydrate, hydrate } from "./hydration";
+import { clonePlainData } from "../shared/utils";
+
+/** Shape of the cache snapshot written to storage. */
+export interface PersistedClient {
+  timestamp: number;
+  buster: string;
+  clientState: DehydratedState;
+}
+
+export interface PersistQueryClientOptions {
+  queryClient: QueryClient;
+  /**
+   * Legend-State persist options. `plugin` selects the storage — a plugin class such as
+   * `ObservablePersistLocalStorage`, an instance such as `observablePersistIndexedDB(...)`,
+   * or `new ObservablePersistMemory()` in tests. `name` defaults to `"usels-query-cache"`.
+   */
+  persist: PersistOptions<PersistedClient | undefined>;
+  /** Minimum time in ms between two writes. Defaults to 1000. */
+  throttleTime?: number;
+  /** Persisted caches older than this (in ms) are discarded. Defaults to 24 hours. */
+  maxAge?: number;
+  /** Version string: a persisted cache written with a different buster is discarded. */
+  buster?: string;
+  dehydrateOptions?: DehydrateOptions;
+  hydrateOptions?: HydrateOptions;
+}
+
+export interface QueryClientPersister {
+  /** `true` until the persisted cache has been restored into the QueryClient (or discarded). */
+  isRestoring$: Observable<boolean>;
+  /** Resolves once restoring has finished. */
+  restored: Promise<void>;
+  /** Starts writing cache changes to storage once restored. Returns the unsubscribe function. */
+  subscribe: () => () => void;
+  /** Removes the persisted cache from storage. */
+  removeClient: () => void;
+}
+
+const DEFAULT_NAME = "usels-query-cache";
+const DEFAULT_MAX_AGE = 1000 * 60 * 60 * 24;
+
+/** Runs `fn` at most once per `wait` ms, always including the latest call. */
+function throttle(fn: () => void, wait: number) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const run = () => {
+    if (timer !== null) return;
+    timer = setTimeout(() => {
+      timer = null;
+      fn();
+    }, wait);
+  };
+  run.cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+  return run;
+}
+
+/**
+ * Persists the QueryClient cache through a Legend-State persist plugin, like
+ * `persistQueryClient` from `@tanstack/react-query-persist-client`.
+ *
+ * Restoring starts right away. With a synchronous storage (e.g. localStorage) the cache is
+ * hydrated before this function returns; with an asynchronous one (e.g. IndexedDB) wait for
+ * `restored` or `isRestoring$`. Call `subscribe()` to write cache changes back to storage.
+ *
+ * @example
+ * ```ts
+ * import { ObservablePersistLocalStorage } from '@legendapp/state/persist-plugins/local-storage'
+ *
+ * const persister = persistQueryClient({
+ *   queryClient,
+ *   persist: { name: 'app-cache', plugin: ObservablePersistLocalStorage },
+ *   buster: APP_VERSION,
+ * })
+ * const unsubscribe = persister.subscribe()
+ * ```
+ */
+export function persistQueryClient(options: PersistQueryClientOptions): QueryClientPersister {
+  const {
+    queryClient,
+    persist,
+    throttleTime = 1000,
+    maxAge = DEFAULT_MAX_AGE,
+    buster = "",
+    dehydrateOptions,
+    hydrateOptions,
+  } = options;
+
+  const persisted$ = observable<PersistedClient | undefined>(undefined);
+  const syncState$ = syncObservable(persisted$, { persist: { name: DEFAULT_NAME, ...persist } });
+  const isRestoring$ = observable(true);
+
+  const removeClient = () => {
+    persisted$.delete();
+  };
+
+  const restore = () => {
+    try {
+      const client = persisted$.peek();
+      if (client) {
+        if (Date.now() - client.timestamp > maxAge || client.buster !== buster) removeClient();
+        else hydrate(queryClient, client.clientState, hydrateOptions);
+      }
+    } catch {
+      // An unreadable cache is dropped rather than failing again on every start
+      removeClient();
+    }
+    isRestoring$.set(false);
+  };
+
+  // `when` runs the effect synchronously if the plugin has already loaded
+  const restored = Promise.resolve(when(syncState$.isPersistLoaded, restore));
+
+  const subscribe = () => {
+    // Dehydrated state shares data objects with the cache; the copy keeps plugin writes
+    // (which apply changes in place) away from them
+    const save = throttle(() => {
+      persisted$.set({
+        timestamp: Date.now(),
+        buster,
+        clientState: clonePlainData(dehydrate(queryClient, dehydrateOptions)),
+      });
+    }, throttleTime);
+
+    let unsubscribeCaches: (() => void) | null = null;
+    let unsubscribed = false;
+    void restored.then(() => {
+      if (unsubscribed) return;
+      const unsubscribeQueries = queryClient.getQueryCache().subscribe(save);
+      const unsubscribeMutations = queryClient.getMutationCache().subscribe(save);
+      unsubscribeCaches = () => {
+        unsubscribeQueries();
+        unsubscribeMutations();
+      };
+    });
+
+    return () => {
+      unsubscribed = true;
+      unsubscribeCaches?.();
+      save.cancel();
+    };
+  };
+
+  return { isRestoring$, restored, subscribe, removeClient };
+}
+
+/** Minimal in-memory `Storage` backing ObservablePersistMemory. */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  [name: string]: unknown;
+
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+/**
+ * Legend-State persist plugin that keeps tables in memory. Pass one instance to several
+ * persisters to simulate a reload in tests, or use it where no storage is available.
+ */
+export class ObservablePersistMemory extends ObservablePersistLocalStorageBase {
+  constructor() {
+    super(new MemoryStorage());
+  }
+}
@@ -0,0 +1,101 @@
+import type { QueryClient, QueryKey } from "@tanstack/query-core";
+import { peek } from "@usels/core";
+import type { UseQueryOptions } from "./useQuery";
+import type { UseInfiniteQueryOptions } from "./useInfiniteQuery";
+import { resolveQueryOptions } from "./utils";
+
+/**
+ * Defines query options once, to share them between `useQuery`, `usePrefetchQuery` and
+ * `ensureQueryData`. Returns the options as-is: Observable key parts and per-field
+ * Observables are kept, and resolved by whichever hook or function receives them.
+ * Its only job is type inference — `TQueryFnData` is inferred from `queryFn`.
+ *
+ * @example
+ * ```ts
+ * const todoOptions = (id$: Observable<number>) =>
+ *   queryOptions({
+ *     queryKey: ['todos', id$],
+ *     queryFn: ({ queryKey: [, id] }) => fetchTodo(id as number),
+ *     staleTime: 60_000,
+ *   })
+ *
+ * const todo$ = useQuery(todoOptions(id$))
+ * usePrefetchQuery(todoOptions(nextId$))
+ * ```
+ */
+export function queryOptions<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: UseQueryOptions<TQueryFnData, TData>
+): UseQueryOptions<TQueryFnData, TData> {
+  return options;
+}
+
+/** `queryOptions` for infinite queries, to share between `useInfiniteQuery` and `usePrefetchInfiniteQuery`. */
+export function infiniteQueryOptions<
+  TQueryFnData = unknown,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  options: UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>
+): UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam> {
+  return options;
+}
+
+/** Fields of the resolved options that `queryClient.ensureQueryData` fetches and caches with */
+const FETCH_OPTIONS = [
+  "queryKey",
+  "queryFn",
+  "staleTime",
+  "gcTime",
+  "retry",
+  "networkMode",
+  "meta",
+  "initialData",
+  "initialDataUpdatedAt",
+] as const;
+
+/**
+ * Returns the cached data of a query, or fetches it when there is none — e.g. in a route
+ * loader. Wraps `queryClient.ensureQueryData`, resolving the same options as `useQuery`:
+ * Observable key parts and per-field Observables are read once, at call time. Hook-only
+ * options (`select`, `placeholderData`, `refetchInterval`, …) are ignored.
+ *
+ * Set `revalidateIfStale` to refetch stale cached data in the background; the cached data
+ * is still returned right away.
+ *
+ * A disabled query (`enabled: false`, `skipToken`, an unresolved key with
+ * `enabledWhenKeyResolved`) never fetches: it resolves with its cached data, or rejects when
+ * there is none.
+ *
+ * @example
+ * ```ts
+ * const loader = () => ensureQueryData(queryClient, todoOptions(id$))
+ * ```
+ */
+export function ensureQueryData<TQueryFnData = unknown, TData = TQueryFnData>(
+  queryClient: QueryClient,
+  options: UseQueryOptions<TQueryFnData, TData> & { revalidateIfStale?: boolean }
+): Promise<TQueryFnData> {
+  const { revalidateIfStale, ...rest } = options;
+  const resolved = resolveQueryOptions<TQueryFnData, TData>(rest, peek);
+
+  if (resolved.enabled === false) {
+    const cached = queryClient.getQueryData<TQueryFnData>(resolved.queryKey);
+    return cached !== undefined
+      ? Promise.resolve(cached)
+      : Promise.reject(
+          new Error(
+            "ensureQueryData: the query is disabled and has no cached data. " +
+              "Check `enabled`, `skipToken` and unresolved key parts."
+          )
+        );
+  }
+
+  const fetchOptions: Record<string, unknown> = {};
+  for (const key of FETCH_OPTIONS) {
+    if (key in resolved) fetchOptions[key] = resolved[key];
+  }
+  return queryClient.ensureQueryData({
+    ...(fetchOptions as Pick<typeof resolved, (typeof FETCH_OPTIONS)[number]>),
+    revalidateIfStale,
+  });
+}
@@ -1,38 +1,50 @@
 "use client";
 import { useMount, useObservable, useObserve } from "@legendapp/state/react";
-import { isObservable } from "@legendapp/state";
 import {
   QueryKey,
   InfiniteQueryObserver,
   InfiniteData,
   QueryFunctionContext,
+  type SkipToken,
+  type InfiniteQueryObserverOptions,
+  type InfiniteQueryObserverResult,
 } from "@tanstack/query-core";
-import { useRef } from "react";
+import { useMemo, useReducer, useRef } from "react";
 import type { Observable } from "@legendapp/state";
-import { get, type MaybeObservable } from "@usels/core";
+import {
+  get,
+  peek,
+  useMaybeObservable,
+  type DeepMaybeObservable,
+  type MaybeObservable,
+} from "@usels/core";
 import { useQueryClient } from "./useQueryClient";
-
-/**
- * QueryKey를 직렬화하면서 Observable 값을 추출합니다.
- * JSON.stringify는 Observable을 자동으로 .get()하지 않으므로
- * 커스텀 replacer를 사용하여 Observable 값을 추출합니다.
- */
-function serializeQueryKey(queryKey: QueryKey): string {
-  return JSON.stringify(queryKey, (_key, value) => {
-    if (isObservable(value)) {
-      return value.get();
-    }
-    return value;
-  });
-}
+import { useQueryErrorResetBoundary } from "./QueryErrorResetBoundary";
+import { useIsRestoring } from "./isRestoring";
+import type { UseQueryOptions } from "./useQuery";
+import {
+  getSuspenseAction,
+  maybeFunctionHint,
+  resolveQueryOptions,
+  subscribeWhenRestored,
+  withSuspenseOptions,
+} from "./utils";
 
 export interface UseInfiniteQueryOptions<
   TQueryFnData = unknown,
   TQueryKey extends QueryKey = QueryKey,
   TPageParam = unknown,
 > {
+  /**
+   * Array whose elements can be plain values, Observables, or nested objects
+   * containing Observables. e.g. `['items', filter$]` or `['items', { category: category$ }]`.
+   * The entire key can also be an Observable array.
+   */
   queryKey: TQueryKey;
-  queryFn: (context: QueryFunctionContext<TQueryKey, TPageParam>) => Promise<TQueryFnData>;
+  /** TanStack's `skipToken` instead of a function disables the query type-safely. */
+  queryFn:
+    | ((context: QueryFunctionContext<TQueryKey, TPageParam>) => Promise<TQueryFnData>)
+    | SkipToken;
 
   // REQUIRED in v5
   initialPageParam: TPageParam;
@@ -52,13 +64,18 @@ export interface UseInfiniteQueryOptions<
   ) => TPageParam | undefined | null;
 
   enabled?: MaybeObservable<boolean>;
+  /**
+   * Disables the query while any part of the resolved `queryKey` is `null` or `undefined`
+   * (e.g. an Observable element not set yet), like `useQuery`'s option of the same name.
+   */
+  enabledWhenKeyResolved?: boolean;
   staleTime?: MaybeObservable<number>;
   gcTime?: MaybeObservable<number>;
   retry?: MaybeObservable<number | boolean>;
   refetchOnWindowFocus?: MaybeObservable<boolean>;
   refetchOnMount?: MaybeObservable<boolean>;
   refetchOnReconnect?: MaybeObservable<boolean>;
-  maxPages?: number;
+  maxPages?: MaybeObservable<number>;
 }
 
 export interface InfiniteQueryState<TData = unknown> {
@@ -101,11 +118,133 @@ export interface InfiniteQueryState<TData = unknown> {
   fetchPreviousPage: () => void;
 }
 
+/**
+ * `useInfiniteQuery` options without `enabled`: a suspense query always runs (so `skipToken`
+ * is not accepted either), and always throws its errors to the nearest error boundary.
+ */
+export type UseSuspenseInfiniteQueryOptions<
+  TQueryFnData = unknown,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+> = Omit<
+  UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>,
+  "enabled" | "enabledWhenKeyResolved" | "queryFn"
+> & {
+  queryFn: Exclude<
+    UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>["queryFn"],
+    SkipToken
+  >;
+};
+
+/**
+ * Infinite query state of a suspense query: rendered only with successfully loaded pages.
+ */
+export interface SuspenseInfiniteQueryState<TData = unknown> extends Omit<
+  InfiniteQueryState<TData>,
+  | "data"
+  | "error"
+  | "status"
+  | "isPending"
+  | "isSuccess"
+  | "isError"
+  | "isLoading"
+  | "isInitialLoading"
+  | "isLoadingError"
+  | "isRefetchError"
+  | "isPlaceholderData"
+> {
+  data: TData;
+  error: null;
+  status: "success";
+  isPending: false;
+  isSuccess: true;
+  isError: false;
+  isLoading: false;
+  isInitialLoading: false;
+  isLoadingError: false;
+  isRefetchError: false;
+  isPlaceholderData: false;
+}
+
+type ObserverOverrides = { suspense: true; enabled: true; throwOnError: true };
+
+/**
+ * Per-field Observable가 포함된 `UseInfiniteQueryOptions`를 plain InfiniteQueryObserver 옵션으로 변환합니다.
+ * 공통 필드(queryKey, enabled, staleTime 등)는 useQuery와 같은 `resolveQueryOptions`로 처리합니다.
+ * `read`는 reactive context에서는 `get`(deps 등록), 마운트 시점 스냅샷에서는 `peek`입니다.
+ */
+export function resolveInfiniteQueryOptions<TQueryFnData, TQueryKey extends QueryKey, TPageParam>(
+  opts: Partial<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>,
+  read: typeof get
+): InfiniteQueryObserverOptions<
+  TQueryFnData,
+  Error,
+  InfiniteData<TQueryFnData>,
+  TQueryKey,
+  TPageParam
+> {
+  const resolved = {
+    ...resolveQueryOptions(opts as Partial<UseQueryOptions<TQueryFnData>>, read),
+    initialPageParam: read(opts.initialPageParam as MaybeObservable<TPageParam>),
+    // 'function' hint로 저장되므로 항상 plain function
+    getNextPageParam: opts.getNextPageParam,
+    getPreviousPageParam: opts.getPreviousPageParam,
+    maxPages: read(opts.maxPages),
+  };
+  // resolveQueryOptions와 마찬가지로 미설정 옵션은 QueryClient 기본값을 사용
+  if (resolved.getPreviousPageParam === undefined) delete resolved.getPreviousPageParam;
+  if (resolved.maxPages === undefined) delete resolved.maxPages;
+  return resolved as unknown as InfiniteQueryObserverOptions<
+    TQueryFnData,
+    Error,
+    InfiniteData<TQueryFnData>,
+    TQueryKey,
+    TPageParam
+  >;
+}
+
+/** InfiniteQueryObserver 결과를 observable 상태 필드로 변환합니다. */
+function toInfiniteQueryState<TData>(result: InfiniteQueryObserverResult<TData, Error>) {
+  return {
+    data: result.data,
+    error: result.error ?? null,
+    status: result.status,
+    fetchStatus: result.fetchStatus as "fetching" | "paused" | "idle",
+    isPending: result.isPending,
+    isSuccess: result.isSuccess,
+    isError: result.isError,
+    isLoadingError: result.isLoadingError,
+    isRefetchError: result.isRefetchError,
+    isFetching: result.isFetching,
+    isPaused: result.isPaused,
+    isRefetching: result.isRefetching,
+    isLoading: result.isLoading,
+    isInitialLoading: result.isLoading,
+    isStale: result.isStale,
+    isPlaceholderData: result.isPlaceholderData,
+    isFetched: result.isFetched,
+    isFetchedAfterMount: result.isFetchedAfterMount,
+    isEnabled: result.isEnabled ?? true,
+    dataUpdatedAt: result.dataUpdatedAt,
+    errorUpdatedAt: result.errorUpdatedAt,
+    failureCount: result.failureCount,
+    failureReason: result.failureReason ?? null,
+    errorUpdateCount: result.errorUpdateCount,
+    hasNextPage: result.hasNextPage ?? false,
+    hasPreviousPage: result.hasPreviousPage ?? false,
+    isFetchingNextPage: result.isFetchingNextPage ?? false,
+    isFetchingPreviousPage: result.isFetchingPreviousPage ?? false,
+    isFetchNextPageError: result.isFetchNextPageError ?? false,
+    isFetchPreviousPageError: result.isFetchPreviousPageError ?? false,
+  };
+}
+
 /**
  * TanStack Query Infinite Query와 Legend-App-State를 연결하는 커스텀 훅
  * InfiniteQueryObserver를 사용하여 쿼리 상태를 observable로 관리합니다.
  *
- * Observable 값을 파라미터로 받을 수 있으며, 변경 시 자동으로 refetch됩니다.
+ * 옵션의 각 필드와 queryKey 내부 요소에 Observable을 사용할 수 있습니다.
+ * queryKey가 바뀌면 해당 key의 캐시된 페이지 목록으로 전환되며, 별도의 reset은 필요 없습니다.
  *
  * @example
  * ```tsx
@@ -119,14 +258,16 @@ export interface InfiniteQueryState<TData = unknown> {
  * })
  *
  * // Observable reactivity
- * const filter$ = useObservable({ category: 'electronics' })
+ * const category$ = useObservable('electronics')
+ * const maxPages$ = useObservable(3)
  * const items$ = useInfiniteQuery({
- *   queryKey: ['items', filter$],
- *   queryFn: ({ pageParam }) =>
- *     fetch(`/api/items?category=${filter$.category.get()}&cursor=${pageParam}`)
+ *   queryKey: ['items', category$],
+ *   queryFn: ({ queryKey: [, category], pageParam }) =>
+ *     fetch(`/api/items?category=${category}&cursor=${pageParam}`)
  *       .then(r => r.json()),
  *   initialPageParam: undefined,
  *   getNextPageParam: (lastPage) => lastPage.nextCursor,
+ *   maxPages: maxPages$,
  * })
  * ```
  */
@@ -135,9 +276,57 @@ export function useInfiniteQuery<
   TQueryKey extends QueryKey = QueryKey,
   TPageParam = unknown,
 >(
-  options: MaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>
+  options: DeepMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>
+): Observable<InfiniteQueryState<InfiniteData<TQueryFnData>>> {
+  return useBaseInfiniteQuery(options);
+}
+
+/**
+ * TanStack v5의 `useSuspenseInfiniteQuery`에 대응하는 suspense 버전
+ *
+ * 첫 페이지 로딩 중(또는 queryKey 변경 후)에는 suspend하고, 에러는 가장 가까운
+ * error boundary로 throw합니다. 따라서 반환 상태는 항상 `status: 'success'`이며
+ * `data`가 정의되어 있습니다. boundary reset 후 재요청은 `QueryErrorResetBoundary`를 사용합니다.
+ *
+ * @example
+ * ```tsx
+ * function Feed() {
+ *   const feed$ = useSuspenseInfiniteQuery({
+ *     queryKey: ['feed'],
+ *     queryFn: ({ pageParam }) => fetchFeed(pageParam),
+ *     initialPageParam: 0,
+ *     getNextPageParam: (lastPage) => lastPage.nextCursor,
+ *   })
+ *   return <FeedList pages={feed$.data.pages.get()} /> // data is never undefined
+ * }
+ * ```
+ */
+export function useSuspenseInfiniteQuery<
+  TQueryFnData = unknown,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  options: DeepMaybeObservable<UseSuspenseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>
+): Observable<SuspenseInfiniteQueryState<InfiniteData<TQueryFnData>>> {
+  return useBaseInfiniteQuery(
+    options as DeepMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>,
+    { suspense: true, enabled: true, throwOnError: true }
+  ) as unknown as Observable<SuspenseInfiniteQueryState<InfiniteData<TQueryFnData>>>;
+}
+
+function useBaseInfiniteQuery<
+  TQueryFnData = unknown,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  options: DeepMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>,
+  overrides?: ObserverOverrides
 ): Observable<InfiniteQueryState<InfiniteData<TQueryFnData>>> {
   const queryClient = useQueryClient();
+  const errorResetBoundary = useQueryErrorResetBoundary();
+  const isRestoring$ = useIsRestoring();
+  // suspense 모드 전용: pending 결과를 throw하기 위해 다시 렌더링
+  const [, forceRender] = useReducer((x: number) => x + 1, 0);
 
   // Observer는 한 번만 생성
   const observerRef = useRef<InfiniteQueryObserver<
@@ -147,11 +336,25 @@ export function useInfiniteQuery<
     TQueryKey,
     TPageParam
   > | null>(null);
-  const previousQueryKeyRef = useRef<string | null>(null);
 
-  // options 자체가 Observable인 경우 초기 스냅샷 추출 (최초 1회용)
-  // eslint-disable-next-line use-legend/observable-naming -- get() resolves to raw value, not an observable
-  const initialOptions = get(options);
+  // DeepMaybeObservable options를 안정적인 computed Observable로 정규화 (useQuery와 동일)
+  // - 함수 필드는 'function' hint: Legend-State가 child observable로 취급하지 않도록
+  //   (queryFn은 skipToken도 그대로 통과시키는 maybeFunctionHint)
+  // - 그 외 필드의 Observable은 그대로 유지되어 useObserve 안의 get()이 deps를 등록
+  // - queryKey는 목록에 없음: resolveQueryKey가 Observable 요소를 직접 처리
+  const opts$ = useMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>(
+    options,
+    {
+      queryFn: maybeFunctionHint,
+      getNextPageParam: "function",
+      getPreviousPageParam: "function",
+    }
+  );
+
+  // 최신 옵션의 비반응형 스냅샷 (Observer 생성 및 함수 필드 변경 감지용)
+  const latestOpts = opts$.peek() as
+    | UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>
+    | undefined;
 
   // Observable 상태 초기화 (refetch/fetchNextPage/fetchPreviousPage는 별도 함수로 분리 - observable 안에 넣으면 Observable<Function>이 됨)
   const state$ = useObservable({
@@ -177,7 +380,10 @@ export function useInfiniteQuery<
     failureCount: 0,
     failureReason: null as Error | null,
     errorUpdateCount: 0,
-    isEnabled: get(initialOptions.enabled) ?? true,
+    isEnabled:
+      overrides?.enabled ??
+      (resolveQueryOptions((latestOpts ?? {}) as Partial<UseQueryOptions<TQueryFnData>>, peek)
+        .enabled as boolean),
     isInitialLoading: true,
     hasNextPage: false,
     hasPreviousPage: false,
@@ -196,113 +402,74 @@ export function useInfiniteQuery<
     },
   });
 
-  // eslint-disable-next-line react-hooks/refs -- lazy initialization: observer created once on first render
-  if (!observerRef.current) {
-    const initialQueryKeyString = serializeQueryKey(initialOptions.queryKey);
-    // eslint-disable-next-line react-hooks/refs -- initial setup during first render only
-    previousQueryKeyRef.current = initialQueryKeyString;
+  // suspense 모드이면 suspense용 옵션(최소 staleTime/gcTime, retryOnMount)을 적용
+  const prepareOptions = (
+    observerOptions: InfiniteQueryObserverOptions<
+      TQueryFnData,
+      Error,
+      InfiniteData<TQueryFnData>,
+      TQueryKey,
+      TPageParam
+    >
+  ) =>
+    withSuspenseOptions(queryClient, observerOptions, errorResetBoundary) as typeof observerOptions;
 
+  // Observer는 최초 렌더링에서 한 번만 생성
+  if (!observerRef.current) {
     observerRef.current = new InfiniteQueryObserver<
       TQueryFnData,
       Error,
       InfiniteData<TQueryFnData>,
       TQueryKey,
       TPageParam
-    >(queryClient, {
-      queryKey: [initialQueryKeyString] as unknown as TQueryKey,
-      queryFn: initialOptions.queryFn,
-      enabled: get(initialOptions.enabled) ?? true,
-      staleTime: get(initialOptions.staleTime),
-      gcTime: get(initialOptions.gcTime),
-      retry: get(initialOptions.retry),
-      refetchOnWindowFocus: get(initialOptions.refetchOnWindowFocus),
-      refetchOnMount: get(initialOptions.refetchOnMount),
-      refetchOnReconnect: get(initialOptions.refetchOnReconnect),
-      initialPageParam: initialOptions.initialPageParam,
-      getNextPageParam: initialOptions.getNextPageParam,
-      getPreviousPageParam: initialOptions.getPreviousPageParam,
-      maxPages: initialOptions.maxPages,
-    });
+    >(
+      queryClient,
+      prepareOptions({ ...resolveInfiniteQueryOptions(latestOpts ?? {}, peek), ...overrides })
+    );
   }
 
   // useObserve로 options 변화 추적 (렌더링 중 동기 실행)
-  // options 자체가 Observable이면 get(options)로 추적,
-  // 각 필드가 Observable이면 get(field)로 추적
+  // - opts$.get(): options 자체가 Observable이거나 렌더마다 바뀌는 plain 객체를 추적
+  // - resolveInfiniteQueryOptions(opts, get): queryKey 내부 Observable 요소와 per-field Observable을 추적
+  // queryKey가 바뀌면 setOptions가 해당 key의 캐시된 페이지 목록으로 전환하고,
+  // staleTime에 따라 TanStack이 refetch 여부를 결정 (수동 refetch/reset 불필요)
+  //
+  // 함수 필드만 바뀐 경우 Legend-State는 opts$ 변경을 알리지 않으므로, Symbol depKey로
+  // 다시 실행해 getNextPageParam/getPreviousPageParam 변경이 hasNextPage 등에 즉시 반영되게 함
+  const pageParamFnKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [latestOpts?.getNextPageParam, latestOpts?.getPreviousPageParam]
+  );
   useObserve(() => {
-    // eslint-disable-next-line use-legend/observable-naming -- get() resolves to raw value, not an observable
-    const resolved = get(options);
-
-    // options 객체를 직렬화하면서 Observable 값을 추출
-    // serializeQueryKey의 replacer에서 .get()을 호출하므로 useObserve가 추적
-    const queryKeyString = serializeQueryKey(resolved.queryKey);
-
-    // queryKey가 변경되었는지 확인
-    const hasQueryKeyChanged = previousQueryKeyRef.current !== queryKeyString;
+    const opts = opts$.get() as UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>;
+    if (!opts) return;
 
-    observerRef.current?.setOptions({
-      queryKey: [queryKeyString] as unknown as TQueryKey,
-      queryFn: resolved.queryFn,
-      enabled: get(resolved.enabled) ?? true,
-      staleTime: get(resolved.staleTime),
-      gcTime: get(resolved.gcTime),
-      retry: get(resolved.retry),
-      refetchOnWindowFocus: get(resolved.refetchOnWindowFocus),
-      refetchOnMount: get(resolved.refetchOnMount),
-      refetchOnReconnect: get(resolved.refetchOnReconnect),
-      initialPageParam: resolved.initialPageParam,
-      getNextPageParam: resolved.getNextPageParam,
-      getPreviousPageParam: resolved.getPreviousPageParam,
-      maxPages: resolved.maxPages,
-    });
-
-    // queryKey가 변경되면 refetch 트리거
-    if (hasQueryKeyChanged && previousQueryKeyRef.current !== null) {
-      observerRef.current?.refetch();
-    }
-
-    previousQueryKeyRef.current = queryKeyString;
-  });
+    observerRef.current?.setOptions(
+      prepareOptions({ ...resolveInfiniteQueryOptions(opts, get), ...overrides })
+    );
+  }, [pageParamFnKey]);
 
   // 구독은 한 번만 설정 (React lifecycle)
   useMount(() => {
     const observer = observerRef.current;
     if (!observer) return;
 
-    const unsubscribe = observer.subscribe((result) => {
-      state$.assign({
-        data: result.data,
-        error: result.error ?? null,
-        status: result.status,
-        fetchStatus: result.fetchStatus as "fetching" | "paused" | "idle",
-        isPending: result.isPending,
-        isSuccess: result.isSuccess,
-        isError: result.isError,
-        isLoadingError: result.isLoadingError,
-        isRefetchError: result.isRefetchError,
-        isFetching: result.isFetching,
-        isPaused: result.isPaused,
-        isRefetching: result.isRefetching,
-        isLoading: result.isLoading,
-        isInitialLoading: result.isLoading,
-        isStale: result.isStale,
-        isPlaceholderData: result.isPlaceholderData,
-        isFetched: result.isFetched,
-        isFetchedAfterMount: result.isFetchedAfterMount,
-        isEnabled: result.isEnabled ?? true,
-        dataUpdatedAt: result.dataUpdatedAt,
-        errorUpdatedAt: result.errorUpdatedAt,
-        failureCount: result.failureCount,
-        failureReason: result.failureReason ?? null,
-        errorUpdateCount: result.errorUpdateCount,
-        hasNextPage: result.hasNextPage ?? false,
-        hasPreviousPage: result.hasPreviousPage ?? false,
-        isFetchingNextPage: result.isFetchingNextPage ?? false,
-        isFetchingPreviousPage: result.isFetchingPreviousPage ?? false,
-        isFetchNextPageError: result.isFetchNextPageError ?? false,
-        isFetchPreviousPageError: result.isFetchPreviousPageError ?? false,
+    // 커밋 완료: QueryErrorResetBoundary의 reset을 소비
+    errorResetBoundary.clearReset();
+
+    // PersistQueryClientProvider가 캐시를 복원할 때까지 구독(fetch)을 미룸
+    const unsubscribe = subscribeWhenRestored(isRestoring$, () =>
+      observer.subscribe((result) => {
+        // suspense 모드: pending/에러 결과는 다시 렌더링해서 아래 throw 경로로 처리
+        if (observer.options.suspense && getSuspenseAction(result, true, errorResetBoundary)) {
+          forceRender();
+          return;
+        }
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as any);
-    });
+        state$.assign(toInfiniteQueryState(result) as any);
+      })
+    );
 
     return () => {
       unsubscribe();
@@ -310,5 +477,31 @@ export function useInfiniteQuery<
     // state$는 stable하므로 의존성에 불필요
   });
 
+  // suspense 모드: 첫 로딩이 pending이면 fetch promise를 throw (useQuery와 동일)
+  const observer = observerRef.current;
+  if (observer.options.suspense) {
+    const result = observer.getOptimisticResult(
+      queryClient.defaultQueryOptions(observer.options) as Parameters<
+        typeof observer.getOptimisticResult
+      >[0]
+    );
+    const action = getSuspenseAction(result, true, errorResetBoundary);
+    if (action === "suspend") {
+      throw observer.fetchOptimistic(observer.options).then(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (fetched) => state$.assign(toInfiniteQueryState(fetched as typeof result) as any),
+        () => {
+          // rejection은 재렌더링 시 쿼리 상태에서 읽음
+        }
+      );
+    }
+    if (action === "error") throw result.error;
+    // 새로 마운트된 인스턴스의 재렌더링: 캐시로 state$ 초기화
+    if (state$.status.peek() === "pending") {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      state$.assign(toInfiniteQueryState(result) as any);
+    }
+  }
+
   return state$;
 }
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import { useInvalidateOnChange } from ".";
+import { createWrapper } from "../../__tests__/test-utils";
+
+type TestQueryClient = ReturnType<typeof createWrapper>["queryClient"];
+
+/** Caches data that outlives the test client's `gcTime: 0`. */
+const seed = (queryClient: TestQueryClient, queryKey: unknown[]) =>
+  queryClient.prefetchQuery({ queryKey, queryFn: () => "data", gcTime: Infinity });
+
+const isInvalidated = (queryClient: TestQueryClient, queryKey: unknown[]) =>
+  queryClient.getQueryState(queryKey)?.isInvalidated;
+
+describe("useInvalidateOnChange", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not invalidate on mount", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    const filter$ = observable("all");
+
+    renderHook(() => useInvalidateOnChange(filter$, { queryKey: ["todos"] }), { wrapper });
+    await act(() => vi.advanceTimersByTimeAsync(100));
+
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+
+  it("should invalidate every query the key prefixes when a dependency changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    await seed(queryClient, ["todos", 1]);
+    await seed(queryClient, ["todos", 2]);
+    await seed(queryClient, ["posts"]);
+    const filter$ = observable("all");
+
+    renderHook(() => useInvalidateOnChange(filter$, { queryKey: ["todos"] }), { wrapper });
+    act(() => filter$.set("done"));
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(isInvalidated(queryClient, ["todos", 1])).toBe(true);
+    expect(isInvalidated(queryClient, ["todos", 2])).toBe(true);
+    expect(isInvalidated(queryClient, ["posts"])).toBe(false);
+  });
+
+  it("should batch changes made in the same tick", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    const filter$ = observable("all");
+    const session$ = observable({ userId: 1 });
+
+    renderHook(() => useInvalidateOnChange([filter$, session$.userId], { queryKey: ["todos"] }), {
+      wrapper,
+    });
+    act(() => {
+      filter$.set("done");
+      session$.userId.set(2);
+    });
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should debounce invalidations", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    const search$ = observable("");
+
+    renderHook(() => useInvalidateOnChange(search$, { queryKey: ["search"] }, { debounce: 300 }), {
+      wrapper,
+    });
+    act(() => search$.set("a"));
+    await act(() => vi.advanceTimersByTimeAsync(200));
+    act(() => search$.set("ab"));
+    await act(() => vi.advanceTimersByTimeAsync(200));
+    expect(invalidate).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    expect(invalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve Observable key elements when invalidating", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    await seed(queryClient, ["todos", 1]);
+    await seed(queryClient, ["todos", 2]);
+    const userId$ = observable(1);
+
+    renderHook(() => useInvalidateOnChange(userId$, { queryKey: ["todos", userId$] }), {
+      wrapper,
+    });
+    act(() => userId$.set(2));
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(isInvalidated(queryClient, ["todos", 1])).toBe(false);
+    expect(isInvalidated(queryClient, ["todos", 2])).toBe(true);
+  });
+
+  it("should invalidate each filter of a list", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    await seed(queryClient, ["products"]);
+    await seed(queryClient, ["categories"]);
+    const locale$ = observable("en");
+
+    renderHook(
+      () =>
+        useInvalidateOnChange(locale$, [{ queryKey: ["products"] }, { queryKey: ["categories"] }]),
+      { wrapper }
+    );
+    act(() => locale$.set("ko"));
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(isInvalidated(queryClient, ["products"])).toBe(true);
+    expect(isInvalidated(queryClient, ["categories"])).toBe(true);
+  });
+
+  it("should drop a pending invalidation on unmount", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    const filter$ = observable("all");
+
+    const { unmount } = renderHook(
+      () => useInvalidateOnChange(filter$, { queryKey: ["todos"] }, { debounce: 100 }),
+      { wrapper }
+    );
+    act(() => filter$.set("done"));
+    unmount();
+    await act(() => vi.advanceTimersByTimeAsync(200));
+
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+});
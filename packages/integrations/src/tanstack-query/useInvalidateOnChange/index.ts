@@ -0,0 +1,67 @@
+"use client";
+import { useMount, useObserve } from "@legendapp/state/react";
+import type { InvalidateQueryFilters } from "@tanstack/query-core";
+import { useRef } from "react";
+import type { ObservableParam } from "@legendapp/state";
+import { peek, type DeepMaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { resolveFilters } from "../utils";
+
+export interface UseInvalidateOnChangeOptions {
+  /**
+   * Waits this many ms after the last change before invalidating. Changes within the window
+   * are batched into a single invalidation. Defaults to 0 (changes made in the same tick
+   * are batched).
+   */
+  debounce?: number;
+}
+
+/**
+ * Custom hook that invalidates queries whenever one of the given Observables changes —
+ * the declarative form of a `useObserve` calling `queryClient.invalidateQueries`.
+ *
+ * Nothing is invalidated for the initial values. Changes are batched (and optionally
+ * debounced), so setting several dependencies at once invalidates only once. Filters are
+ * resolved when the invalidation runs: Observable elements in `queryKey` use their latest
+ * value, and the key matches every query it prefixes unless `exact` is set.
+ *
+ * @example
+ * ```tsx
+ * // Refetch the todo lists whenever the search filters or the user change
+ * useInvalidateOnChange([filters$, session$.userId], { queryKey: ['todos'] }, { debounce: 300 })
+ *
+ * // Several filters at once
+ * useInvalidateOnChange(locale$, [{ queryKey: ['products'] }, { queryKey: ['categories'] }])
+ * ```
+ */
+export function useInvalidateOnChange(
+  deps: ObservableParam | ObservableParam[],
+  filters:
+    | DeepMaybeObservable<InvalidateQueryFilters>
+    | DeepMaybeObservable<InvalidateQueryFilters>[],
+  options: UseInvalidateOnChangeOptions = {}
+): void {
+  const queryClient = useQueryClient();
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const invalidate = () => {
+    timerRef.current = null;
+    const list = Array.isArray(filters) ? filters : [filters];
+    for (const item of list) {
+      void queryClient.invalidateQueries(resolveFilters<InvalidateQueryFilters>(item, peek));
+    }
+  };
+
+  useObserve((e) => {
+    // get() registers every dependency; the filters are not tracked
+    for (const dep$ of Array.isArray(deps) ? deps : [deps]) dep$.get();
+    if (e.num === 0) return;
+
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(invalidate, options.debounce ?? 0);
+  });
+
+  useMount(() => () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+  });
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import { useIsFetching } from ".";
+import { createWrapper } from "../../__tests__/test-utils";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("useIsFetching", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should start at 0 when nothing is fetching", () => {
+    const { wrapper } = createWrapper();
+
+    const { result } = renderHook(() => useIsFetching(), { wrapper });
+
+    expect(result.current.get()).toBe(0);
+  });
+
+  it("should count fetches as they start and settle", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const a = deferred<string>();
+    const b = deferred<string>();
+
+    const { result } = renderHook(() => useIsFetching(), { wrapper });
+
+    act(() => {
+      void queryClient.prefetchQuery({ queryKey: ["a"], queryFn: () => a.promise });
+      void queryClient.prefetchQuery({ queryKey: ["b"], queryFn: () => b.promise });
+    });
+    await waitFor(() => expect(result.current.get()).toBe(2));
+
+    await act(async () => a.resolve("A"));
+    await waitFor(() => expect(result.current.get()).toBe(1));
+
+    await act(async () => b.resolve("B"));
+    await waitFor(() => expect(result.current.get()).toBe(0));
+  });
+
+  it("should only count queries matching the filters", async () => {
+    const { wrapper, queryClient } = createWrapper();
+
+    const { result } = renderHook(() => useIsFetching({ queryKey: ["users"] }), { wrapper });
+
+    act(() => {
+      void queryClient.prefetchQuery({
+        queryKey: ["users", 1],
+        queryFn: () => new Promise(() => {}),
+      });
+      void queryClient.prefetchQuery({ queryKey: ["posts"], queryFn: () => new Promise(() => {}) });
+    });
+
+    await waitFor(() => expect(result.current.get()).toBe(1));
+  });
+
+  it("should recount when an observable queryKey element changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const id$ = observable(1);
+
+    const { result } = renderHook(() => useIsFetching({ queryKey: ["users", id$] }), {
+      wrapper,
+    });
+
+    act(() => {
+      void queryClient.prefetchQuery({
+        queryKey: ["users", 2],
+        queryFn: () => new Promise(() => {}),
+      });
+    });
+    await act(async () => {});
+    expect(result.current.get()).toBe(0);
+
+    act(() => {
+      id$.set(2);
+    });
+    expect(result.current.get()).toBe(1);
+  });
+
+  it("should recount when an observable filter field changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const exact$ = observable(true);
+
+    const { result } = renderHook(() => useIsFetching({ queryKey: ["users"], exact: exact$ }), {
+      wrapper,
+    });
+
+    act(() => {
+      void queryClient.prefetchQuery({
+        queryKey: ["users", 1],
+        queryFn: () => new Promise(() => {}),
+      });
+    });
+    await act(async () => {});
+    expect(result.current.get()).toBe(0);
+
+    act(() => {
+      exact$.set(false);
+    });
+    expect(result.current.get()).toBe(1);
+  });
+
+  it("should stop updating after unmount", async () => {
+    const { wrapper, queryClient } = createWrapper();
+
+    const { result, unmount } = renderHook(() => useIsFetching(), { wrapper });
+    const isFetching$ = result.current;
+    unmount();
+    await act(async () => {});
+
+    act(() => {
+      void queryClient.prefetchQuery({ queryKey: ["a"], queryFn: () => new Promise(() => {}) });
+    });
+    await act(async () => {});
+
+    expect(isFetching$.get()).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+"use client";
+import { useMount, useObservable, useObserve } from "@legendapp/state/react";
+import { notifyManager, type QueryFilters } from "@tanstack/query-core";
+import { useMemo, useRef } from "react";
+import type { Observable } from "@legendapp/state";
+import { get, type DeepMaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { resolveFilters } from "../utils";
+
+/**
+ * Custom hook that returns the number of queries currently fetching as an Observable.
+ * Subscribes to the QueryCache, so the count follows every fetch start and settle.
+ *
+ * `filters` accepts the same fields as `queryClient.isFetching`. Each field can be an
+ * Observable, and `queryKey` may contain Observable elements — changing them recounts.
+ *
+ * @example
+ * ```tsx
+ * // Global loading indicator
+ * const isFetching$ = useIsFetching()
+ * isFetching$.get() > 0
+ *
+ * // Only queries under the current user's key
+ * const userId$ = observable(1)
+ * const userFetching$ = useIsFetching({ queryKey: ['users', userId$] })
+ * ```
+ */
+export function useIsFetching(filters?: DeepMaybeObservable<QueryFilters>): Observable<number> {
+  const queryClient = useQueryClient();
+
+  // Latest resolved filters, read by the cache listener
+  const filtersRef = useRef<QueryFilters>({});
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const depKey = useMemo(() => Symbol(), [filters]);
+
+  const isFetching$ = useObservable(0);
+
+  // Recount whenever an observable filter changes (get() inside resolveFilters registers deps)
+  useObserve(() => {
+    filtersRef.current = resolveFilters(filters, get);
+    isFetching$.set(queryClient.isFetching(filtersRef.current));
+  }, [depKey]);
+
+  useMount(() => {
+    const update = () => isFetching$.set(queryClient.isFetching(filtersRef.current));
+    // Cache events can fire while another component renders (e.g. a setOptions call),
+    // so updates are deferred through the notifyManager like react-query does.
+    const unsubscribe = queryClient.getQueryCache().subscribe(notifyManager.batchCalls(update));
+    // Catch fetches started between the first render and this subscription
+    update();
+    return unsubscribe;
+  });
+
+  return isFetching$;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import type { QueryClient } from "@tanstack/query-core";
+import { useIsMutating } from ".";
+import { createWrapper } from "../../__tests__/test-utils";
+
+function startMutation(queryClient: QueryClient, mutationKey: unknown[], settle: Promise<unknown>) {
+  void queryClient
+    .getMutationCache()
+    .build(queryClient, { mutationKey, mutationFn: () => settle })
+    .execute(undefined)
+    .catch(() => {});
+}
+
+describe("useIsMutating", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should start at 0 when nothing is mutating", () => {
+    const { wrapper } = createWrapper();
+
+    const { result } = renderHook(() => useIsMutating(), { wrapper });
+
+    expect(result.current.get()).toBe(0);
+  });
+
+  it("should count pending mutations until they settle", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    let resolve!: () => void;
+    const settle = new Promise<void>((r) => {
+      resolve = r;
+    });
+
+    const { result } = renderHook(() => useIsMutating(), { wrapper });
+
+    act(() => {
+      startMutation(queryClient, ["addTodo"], settle);
+    });
+    await waitFor(() => expect(result.current.get()).toBe(1));
+
+    await act(async () => resolve());
+    await waitFor(() => expect(result.current.get()).toBe(0));
+  });
+
+  it("should only count mutations matching the filters", async () => {
+    const { wrapper, queryClient } = createWrapper();
+
+    const { result } = renderHook(() => useIsMutating({ mutationKey: ["todos"] }), { wrapper });
+
+    act(() => {
+      startMutation(queryClient, ["todos", "add"], new Promise(() => {}));
+      startMutation(queryClient, ["posts"], new Promise(() => {}));
+    });
+
+    await waitFor(() => expect(result.current.get()).toBe(1));
+  });
+
+  it("should recount when an observable mutationKey element changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const scope$ = observable("todos");
+
+    const { result } = renderHook(() => useIsMutating({ mutationKey: [scope$] }), { wrapper });
+
+    act(() => {
+      startMutation(queryClient, ["posts"], new Promise(() => {}));
+    });
+    await act(async () => {});
+    expect(result.current.get()).toBe(0);
+
+    act(() => {
+      scope$.set("posts");
+    });
+    expect(result.current.get()).toBe(1);
+  });
+});
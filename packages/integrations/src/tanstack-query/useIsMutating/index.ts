@@ -0,0 +1,54 @@
+"use client";
+import { useMount, useObservable, useObserve } from "@legendapp/state/react";
+import { notifyManager, type MutationFilters } from "@tanstack/query-core";
+import { useMemo, useRef } from "react";
+import type { Observable } from "@legendapp/state";
+import { get, type DeepMaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { resolveFilters } from "../utils";
+
+/**
+ * Custom hook that returns the number of pending mutations as an Observable.
+ * Subscribes to the MutationCache, so the count follows every mutation start and settle.
+ *
+ * `filters` accepts the same fields as `queryClient.isMutating`. Each field can be an
+ * Observable, and `mutationKey` may contain Observable elements — changing them recounts.
+ *
+ * @example
+ * ```tsx
+ * // Header spinner while any mutation is in flight
+ * const isMutating$ = useIsMutating()
+ * isMutating$.get() > 0
+ *
+ * // Only the todo mutations
+ * const savingTodos$ = useIsMutating({ mutationKey: ['todos'] })
+ * ```
+ */
+export function useIsMutating(filters?: DeepMaybeObservable<MutationFilters>): Observable<number> {
+  const queryClient = useQueryClient();
+
+  // Latest resolved filters, read by the cache listener
+  const filtersRef = useRef<MutationFilters>({});
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const depKey = useMemo(() => Symbol(), [filters]);
+
+  const isMutating$ = useObservable(0);
+
+  // Recount whenever an observable filter changes (get() inside resolveFilters registers deps)
+  useObserve(() => {
+    filtersRef.current = resolveFilters(filters, get);
+    isMutating$.set(queryClient.isMutating(filtersRef.current));
+  }, [depKey]);
+
+  useMount(() => {
+    const update = () => isMutating$.set(queryClient.isMutating(filtersRef.current));
+    // Deferred through the notifyManager, same as useIsFetching
+    const unsubscribe = queryClient.getMutationCache().subscribe(notifyManager.batchCalls(update));
+    // Catch mutations started between the first render and this subscription
+    update();
+    return unsubscribe;
+  });
+
+  return isMutating$;
+}
@@ -1,12 +1,31 @@
 "use client";
 import { useMount, useObservable, useObserve } from "@legendapp/state/react";
-import { MutationKey, MutationObserver } from "@tanstack/query-core";
+import {
+  MutationObserver,
+  type MutationMeta,
+  type MutationObserverOptions,
+  type MutationScope,
+  type NetworkMode,
+} from "@tanstack/query-core";
 import { useRef } from "react";
 import type { Observable } from "@legendapp/state";
+import {
+  get,
+  peek,
+  useMaybeObservable,
+  type DeepMaybeObservable,
+  type MaybeObservable,
+} from "@usels/core";
 import { useQueryClient } from "./useQueryClient";
+import { resolveQueryKey } from "./utils";
 
 export interface UseMutationOptions<TData = unknown, TVariables = void, TContext = unknown> {
-  mutationKey?: MutationKey;
+  /**
+   * Array whose elements can be plain values, Observables, or nested objects
+   * containing Observables. e.g. `['todos', listId$]`. Changing the resolved key
+   * resets the mutation state, as in TanStack's MutationObserver.
+   */
+  mutationKey?: readonly unknown[];
   mutationFn: (variables: TVariables) => Promise<TData>;
   onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
   onSuccess?: (
@@ -25,6 +44,47 @@ export interface UseMutationOptions<TData = unknown, TVariables = void, TContext
     variables: TVariables,
     context: TContext | undefined
   ) => void | Promise<void>;
+  retry?: MaybeObservable<number | boolean>;
+  /** Delay in ms between retries, or a function of the failure count and error. */
+  retryDelay?: MaybeObservable<number> | ((failureCount: number, error: Error) => number);
+  gcTime?: MaybeObservable<number>;
+  networkMode?: MaybeObservable<NetworkMode>;
+  meta?: MaybeObservable<MutationMeta>;
+  /** Mutations sharing a scope id run serially, in the order they were started. */
+  scope?: MaybeObservable<MutationScope>;
+}
+
+/**
+ * Resolves `UseMutationOptions` with per-field Observables into plain MutationObserver options.
+ * `read` is `get` inside reactive contexts (registers deps) or `peek` for mount-time snapshots.
+ */
+function resolveMutationOptions<TData, TVariables, TContext>(
+  opts: Partial<UseMutationOptions<TData, TVariables, TContext>>,
+  read: typeof get
+): MutationObserverOptions<TData, Error, TVariables, TContext> {
+  const resolved: MutationObserverOptions<TData, Error, TVariables, TContext> = {
+    mutationKey: opts.mutationKey === undefined ? undefined : resolveQueryKey(opts.mutationKey),
+    // Callbacks are never Observables ('function' hint)
+    mutationFn: opts.mutationFn,
+    onMutate: opts.onMutate,
+    onSuccess: opts.onSuccess,
+    onError: opts.onError,
+    onSettled: opts.onSettled,
+    retry: read(opts.retry),
+    retryDelay: read(
+      opts.retryDelay as MaybeObservable<number | ((failureCount: number, error: Error) => number)>
+    ),
+    gcTime: read(opts.gcTime),
+    networkMode: read(opts.networkMode),
+    meta: read(opts.meta),
+    scope: read(opts.scope),
+  };
+
+  // Unset options fall back to the QueryClient mutation defaults (see resolveQueryOptions)
+  for (const key of Object.keys(resolved) as (keyof typeof resolved)[]) {
+    if (resolved[key] === undefined) delete resolved[key];
+  }
+  return resolved;
 }
 
 export interface MutationState<TData = unknown, TVariables = void, TContext = unknown> {
@@ -87,10 +147,21 @@ export interface MutationState<TData = unknown, TVariables = void, TContext = un
  * ```
  */
 export function useMutation<TData = unknown, TVariables = void, TContext = unknown>(
-  options: UseMutationOptions<TData, TVariables, TContext>
+  options: DeepMaybeObservable<UseMutationOptions<TData, TVariables, TContext>>
 ): Observable<MutationState<TData, TVariables, TContext>> {
   const queryClient = useQueryClient();
 
+  // Normalize options the same way as useQuery: callbacks get the 'function' hint, other
+  // per-field Observables are kept as-is so get() inside useObserve registers the dep.
+  // mutationKey is not listed: resolveQueryKey handles Observable elements directly.
+  const opts$ = useMaybeObservable<UseMutationOptions<TData, TVariables, TContext>>(options, {
+    mutationFn: "function",
+    onMutate: "function",
+    onSuccess: "function",
+    onError: "function",
+    onSettled: "function",
+  });
+
   // Observer는 한 번만 생성
   const observerRef = useRef<MutationObserver<TData, Error, TVariables, TContext> | null>(null);
 
@@ -135,26 +206,18 @@ export function useMutation<TData = unknown, TVariables = void, TContext = unkno
 
   // eslint-disable-next-line react-hooks/refs -- lazy initialization: observer created once on first render
   if (!observerRef.current) {
-    observerRef.current = new MutationObserver<TData, Error, TVariables, TContext>(queryClient, {
-      mutationKey: options.mutationKey,
-      mutationFn: options.mutationFn,
-      onMutate: options.onMutate,
-      onSuccess: options.onSuccess,
-      onError: options.onError,
-      onSettled: options.onSettled,
-    });
+    observerRef.current = new MutationObserver<TData, Error, TVariables, TContext>(
+      queryClient,
+      resolveMutationOptions(opts$.peek() ?? {}, peek)
+    );
   }
 
-  // useObserve로 options 변화 추적
+  // useObserve로 options 변화 추적 — get() registers deps on per-field Observables and on
+  // Observable elements inside mutationKey
   useObserve(() => {
-    observerRef.current?.setOptions({
-      mutationKey: options.mutationKey,
-      mutationFn: options.mutationFn,
-      onMutate: options.onMutate,
-      onSuccess: options.onSuccess,
-      onError: options.onError,
-      onSettled: options.onSettled,
-    });
+    const opts = opts$.get();
+    if (!opts) return;
+    observerRef.current?.setOptions(resolveMutationOptions(opts, get));
   });
 
   // 구독은 한 번만 설정 (React lifecycle)
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import type { QueryClient } from "@tanstack/query-core";
+import { useMutationState } from ".";
+import { createWrapper } from "../../__tests__/test-utils";
+
+function startMutation<TVariables>(
+  queryClient: QueryClient,
+  mutationKey: unknown[],
+  variables: TVariables,
+  settle: Promise<unknown>
+) {
+  void queryClient
+    .getMutationCache()
+    .build(queryClient, { mutationKey, mutationFn: () => settle })
+    .execute(variables)
+    .catch(() => {});
+}
+
+describe("useMutationState", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return an empty array when the cache has no mutations", () => {
+    const { wrapper } = createWrapper();
+
+    const { result } = renderHook(() => useMutationState(), { wrapper });
+
+    expect(result.current.get()).toEqual([]);
+  });
+
+  it("should expose the state of every mutation by default", async () => {
+    const { wrapper, queryClient } = createWrapper();
+
+    const { result } = renderHook(() => useMutationState(), { wrapper });
+
+    act(() => {
+      startMutation(queryClient, ["addTodo"], "first", new Promise(() => {}));
+    });
+
+    await waitFor(() => expect(result.current.get()).toHaveLength(1));
+    expect(result.current[0].status.get()).toBe("pending");
+    expect(result.current[0].variables.get()).toBe("first");
+  });
+
+  it("should list variables of pending mutations via select", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    let resolve!: () => void;
+    const settle = new Promise<void>((r) => {
+      resolve = r;
+    });
+
+    const { result } = renderHook(
+      () =>
+        useMutationState({
+          filters: { mutationKey: ["addTodo"], status: "pending" },
+          select: (mutation) => mutation.state.variables as string,
+        }),
+      { wrapper }
+    );
+
+    act(() => {
+      startMutation(queryClient, ["addTodo"], "buy milk", settle);
+      startMutation(queryClient, ["addTodo"], "walk dog", new Promise(() => {}));
+      startMutation(queryClient, ["removeTodo"], "old", new Promise(() => {}));
+    });
+    await waitFor(() => expect(result.current.get()).toEqual(["buy milk", "walk dog"]));
+
+    await act(async () => resolve());
+    await waitFor(() => expect(result.current.get()).toEqual(["walk dog"]));
+  });
+
+  it("should re-select when an observable filter changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const key$ = observable("addTodo");
+
+    const { result } = renderHook(
+      () =>
+        useMutationState({
+          filters: { mutationKey: [key$] },
+          select: (mutation) => mutation.state.variables as string,
+        }),
+      { wrapper }
+    );
+
+    act(() => {
+      startMutation(queryClient, ["addTodo"], "a", new Promise(() => {}));
+      startMutation(queryClient, ["removeTodo"], "b", new Promise(() => {}));
+    });
+    await waitFor(() => expect(result.current.get()).toEqual(["a"]));
+
+    act(() => {
+      key$.set("removeTodo");
+    });
+    expect(result.current.get()).toEqual(["b"]);
+  });
+
+  it("should keep unchanged entries referentially stable", async () => {
+    const { wrapper, queryClient } = createWrapper();
+
+    const { result } = renderHook(
+      () => useMutationState({ select: (mutation) => ({ id: mutation.mutationId }) }),
+      { wrapper }
+    );
+
+    act(() => {
+      startMutation(queryClient, ["a"], undefined, new Promise(() => {}));
+    });
+    await waitFor(() => expect(result.current.get()).toHaveLength(1));
+    const first = result.current[0].peek();
+
+    act(() => {
+      startMutation(queryClient, ["b"], undefined, new Promise(() => {}));
+    });
+    await waitFor(() => expect(result.current.get()).toHaveLength(2));
+
+    expect(result.current[0].peek()).toBe(first);
+  });
+});
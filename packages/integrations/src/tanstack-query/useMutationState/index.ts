@@ -0,0 +1,92 @@
+"use client";
+import { useMount, useObservable, useObserve } from "@legendapp/state/react";
+import {
+  notifyManager,
+  replaceEqualDeep,
+  type Mutation,
+  type MutationCache,
+  type MutationFilters,
+  type MutationState as CoreMutationState,
+} from "@tanstack/query-core";
+import { useMemo, useRef } from "react";
+import type { Observable } from "@legendapp/state";
+import { get, type DeepMaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { resolveFilters } from "../utils";
+
+export interface UseMutationStateOptions<TResult = CoreMutationState> {
+  /**
+   * Which mutations to include. Each field can be an Observable, and `mutationKey` may
+   * contain Observable elements — changing them re-selects the list.
+   */
+  filters?: DeepMaybeObservable<MutationFilters>;
+  /** Maps each matching mutation to a result entry. Defaults to `mutation.state`. */
+  select?: (mutation: Mutation) => TResult;
+}
+
+function getResult<TResult>(
+  mutationCache: MutationCache,
+  filters: MutationFilters,
+  select: ((mutation: Mutation) => TResult) | undefined
+): TResult[] {
+  return mutationCache
+    .findAll(filters)
+    .map((mutation) => (select ? select(mutation) : (mutation.state as TResult)));
+}
+
+/**
+ * Custom hook that exposes the state of every matching mutation in the MutationCache as an
+ * Observable array — including mutations started from other components.
+ *
+ * Unchanged entries keep their identity between updates (structural sharing), so observers
+ * of a single entry are only notified when that entry actually changes.
+ *
+ * @example
+ * ```tsx
+ * // Render in-flight todos optimistically, wherever `addTodo` was called
+ * const pendingTodos$ = useMutationState({
+ *   filters: { mutationKey: ['addTodo'], status: 'pending' },
+ *   select: (mutation) => mutation.state.variables as Todo,
+ * })
+ * pendingTodos$.get() // Todo[]
+ * ```
+ */
+export function useMutationState<TResult = CoreMutationState>(
+  options: UseMutationStateOptions<TResult> = {}
+): Observable<TResult[]> {
+  const queryClient = useQueryClient();
+  const mutationCache = queryClient.getMutationCache();
+
+  // Latest select without recomputing on every render
+  const selectRef = useRef(options.select);
+  selectRef.current = options.select;
+
+  // Latest resolved filters, read by the cache listener
+  const filtersRef = useRef<MutationFilters>({});
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const depKey = useMemo(() => Symbol(), [options.filters]);
+
+  const result$ = useObservable<TResult[]>([]);
+
+  const update = () => {
+    const next = getResult(mutationCache, filtersRef.current, selectRef.current);
+    result$.set(replaceEqualDeep(result$.peek() as TResult[], next) as never);
+  };
+
+  // Re-select whenever an observable filter changes (get() inside resolveFilters registers deps)
+  useObserve(() => {
+    filtersRef.current = resolveFilters(options.filters, get);
+    update();
+  }, [depKey]);
+
+  useMount(() => {
+    // Deferred through the notifyManager, same as useIsFetching
+    const unsubscribe = mutationCache.subscribe(notifyManager.batchCalls(update));
+    // Catch mutations started between the first render and this subscription
+    update();
+    return unsubscribe;
+  });
+
+  return result$;
+}
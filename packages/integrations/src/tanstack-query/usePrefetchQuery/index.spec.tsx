@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import type { ReactNode } from "react";
+import { usePrefetchInfiniteQuery, usePrefetchQuery } from ".";
+import { QueryClientProvider } from "../QueryClientProvider";
+import { IsRestoringContext } from "../isRestoring";
+import { queryOptions } from "../queryOptions";
+import { useQuery } from "../useQuery";
+import { createTestQueryClient, createWrapper } from "../../__tests__/test-utils";
+
+describe("usePrefetchQuery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should prefetch on mount", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const queryFn = vi.fn().mockResolvedValue("data");
+
+    renderHook(() => usePrefetchQuery({ queryKey: ["todos"], queryFn, gcTime: 60_000 }), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(queryClient.getQueryData(["todos"])).toBe("data"));
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not prefetch again on re-render", async () => {
+    const { wrapper } = createWrapper();
+    const queryFn = vi.fn().mockResolvedValue("data");
+
+    const { rerender } = renderHook(
+      () => usePrefetchQuery({ queryKey: ["todos"], queryFn, gcTime: 60_000 }),
+      { wrapper }
+    );
+    await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+
+    rerender();
+    rerender();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should prefetch a new key when an Observable key part changes", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const page$ = observable(1);
+    const queryFn = vi.fn(({ queryKey }) => Promise.resolve(`page ${queryKey[1]}`));
+
+    renderHook(() => usePrefetchQuery({ queryKey: ["projects", page$], queryFn, gcTime: 60_000 }), {
+      wrapper,
+    });
+    await waitFor(() => expect(queryClient.getQueryData(["projects", 1])).toBe("page 1"));
+
+    act(() => page$.set(2));
+
+    await waitFor(() => expect(queryClient.getQueryData(["projects", 2])).toBe("page 2"));
+  });
+
+  it("should wait for the trigger to turn truthy", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const hovered$ = observable(false);
+    const queryFn = vi.fn().mockResolvedValue("detail");
+
+    renderHook(
+      () =>
+        usePrefetchQuery(
+          { queryKey: ["detail"], queryFn, gcTime: 60_000, staleTime: 60_000 },
+          { trigger: hovered$ }
+        ),
+      { wrapper }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queryFn).not.toHaveBeenCalled();
+
+    act(() => hovered$.set(true));
+    await waitFor(() => expect(queryClient.getQueryData(["detail"])).toBe("detail"));
+
+    act(() => hovered$.set(false));
+    act(() => hovered$.set(true));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    // Fresh data is not fetched again
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip disabled queries", async () => {
+    const { wrapper } = createWrapper();
+    const id$ = observable<number | undefined>(undefined);
+    const queryFn = vi.fn().mockResolvedValue("user");
+
+    renderHook(
+      () =>
+        usePrefetchQuery({
+          queryKey: ["user", id$],
+          queryFn,
+          enabledWhenKeyResolved: true,
+          gcTime: 60_000,
+        }),
+      { wrapper }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queryFn).not.toHaveBeenCalled();
+
+    act(() => id$.set(1));
+
+    await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+  });
+
+  it("should wait for a persisted cache to be restored", async () => {
+    const queryClient = createTestQueryClient();
+    // Stands in for a persister that is still restoring
+    const persister = { isRestoring$: observable(true) };
+    const queryFn = vi.fn().mockResolvedValue("data");
+
+    renderHook(() => usePrefetchQuery({ queryKey: ["todos"], queryFn, gcTime: 60_000 }), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <QueryClientProvider client={queryClient}>
+          <IsRestoringContext.Provider value={persister.isRestoring$}>
+            {children}
+          </IsRestoringContext.Provider>
+        </QueryClientProvider>
+      ),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(queryFn).not.toHaveBeenCalled();
+
+    act(() => persister.isRestoring$.set(false));
+
+    await waitFor(() => expect(queryClient.getQueryData(["todos"])).toBe("data"));
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share options with useQuery through queryOptions", async () => {
+    const { wrapper } = createWrapper();
+    const queryFn = vi.fn().mockResolvedValue({ title: "Write tests" });
+    const todoOptions = queryOptions({
+      queryKey: ["todo", 1],
+      queryFn: queryFn as () => Promise<{ title: string }>,
+      staleTime: 60_000,
+      gcTime: 60_000,
+    });
+
+    renderHook(() => usePrefetchQuery(todoOptions), { wrapper });
+    await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+
+    const { result } = renderHook(() => useQuery(todoOptions), { wrapper });
+
+    expect(result.current.data.title.get()).toBe("Write tests");
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("usePrefetchInfiniteQuery", () => {
+  it("should prefetch the first page", async () => {
+    const { wrapper, queryClient } = createWrapper();
+    const queryFn = vi.fn(({ pageParam }: { pageParam: number }) =>
+      Promise.resolve([pageParam, pageParam + 1])
+    );
+
+    renderHook(
+      () =>
+        usePrefetchInfiniteQuery({
+          queryKey: ["items"],
+          queryFn,
+          initialPageParam: 0,
+          getNextPageParam: (lastPage: number[]) => lastPage[1] + 1,
+          gcTime: 60_000,
+        }),
+      { wrapper }
+    );
+
+    await waitFor(() =>
+      expect(queryClient.getQueryData(["items"])).toEqual({ pages: [[0, 1]], pageParams: [0] })
+    );
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+"use client";
+import { observe, type Observable, type ObservableParam } from "@legendapp/state";
+import { useMount } from "@legendapp/state/react";
+import { hashKey, type QueryKey } from "@tanstack/query-core";
+import { get, useMaybeObservable, type DeepMaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { useIsRestoring } from "../isRestoring";
+import type { UseQueryOptions } from "../useQuery";
+import { resolveInfiniteQueryOptions, type UseInfiniteQueryOptions } from "../useInfiniteQuery";
+import { maybeFunctionHint, resolveQueryOptions, subscribeWhenRestored } from "../utils";
+
+export interface UsePrefetchQueryOptions {
+  /**
+   * Prefetches whenever this Observable changes to a truthy value (e.g. `hovered$`)
+   * instead of on mount.
+   */
+  trigger?: ObservableParam;
+}
+
+/**
+ * Prefetches `opts$` on mount (or when `trigger` turns truthy) and again whenever its
+ * resolved key changes. Re-renders that keep the key do not prefetch, and disabled queries
+ * (`enabled: false`, `skipToken`, an unresolved key with `enabledWhenKeyResolved`) are skipped.
+ * Like the query hooks, it waits for a PersistQueryClientProvider to restore the cache first.
+ */
+function usePrefetch<TOptions, TResolved extends { queryKey: QueryKey; enabled?: unknown }>(
+  opts$: Observable<TOptions | undefined>,
+  trigger: ObservableParam | undefined,
+  resolve: (opts: TOptions) => TResolved,
+  prefetch: (resolved: TResolved) => void
+) {
+  const isRestoring$ = useIsRestoring();
+
+  useMount(() =>
+    subscribeWhenRestored(isRestoring$, () => {
+      let lastHash: string | null = null;
+      return observe(() => {
+        const opts = opts$.get();
+        const active = opts !== undefined && (trigger === undefined || !!trigger.get());
+        const resolved = active ? resolve(opts) : null;
+        const hash = resolved && resolved.enabled !== false ? hashKey(resolved.queryKey) : null;
+        if (hash === lastHash) return;
+        lastHash = hash;
+        if (hash !== null) prefetch(resolved as TResolved);
+      });
+    })
+  );
+}
+
+/**
+ * Custom hook that warms the cache for a query the component is about to need — e.g. the
+ * next page, or a detail view behind a hovered link — without subscribing to its result.
+ *
+ * Prefetches on mount, or whenever `trigger` changes to a truthy value. Takes the same
+ * options as `useQuery` (share them with `queryOptions`); Observable key parts are tracked,
+ * so a new key is prefetched as soon as it changes. Fresh cached data is not refetched.
+ *
+ * @example
+ * ```tsx
+ * // Prefetch the next page while the current one is shown
+ * usePrefetchQuery({ queryKey: ['projects', nextPage$], queryFn: fetchProjects })
+ *
+ * // Prefetch a detail view on hover
+ * const hovered$ = useObservable(false)
+ * usePrefetchQuery(todoOptions(id), { trigger: hovered$ })
+ * ```
+ */
+export function usePrefetchQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>,
+  prefetchOptions: UsePrefetchQueryOptions = {}
+): void {
+  const queryClient = useQueryClient();
+
+  // Same field hints as useQuery: function fields are stored as plain functions
+  const opts$ = useMaybeObservable<UseQueryOptions<TQueryFnData, TData>>(options, {
+    queryFn: maybeFunctionHint,
+    select: "function",
+    structuralSharing: maybeFunctionHint,
+    placeholderData: maybeFunctionHint,
+    initialData: maybeFunctionHint,
+    initialDataUpdatedAt: maybeFunctionHint,
+    refetchInterval: maybeFunctionHint,
+  });
+
+  usePrefetch(
+    opts$ as Observable<UseQueryOptions<TQueryFnData, TData> | undefined>,
+    prefetchOptions.trigger,
+    (opts) => resolveQueryOptions(opts, get),
+    (resolved) => void queryClient.prefetchQuery(resolved)
+  );
+}
+
+/**
+ * `usePrefetchQuery` for infinite queries: prefetches the first page of `useInfiniteQuery`
+ * options on mount, or whenever `trigger` changes to a truthy value.
+ */
+export function usePrefetchInfiniteQuery<
+  TQueryFnData = unknown,
+  TQueryKey extends QueryKey = QueryKey,
+  TPageParam = unknown,
+>(
+  options: DeepMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>,
+  prefetchOptions: UsePrefetchQueryOptions = {}
+): void {
+  const queryClient = useQueryClient();
+
+  const opts$ = useMaybeObservable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam>>(
+    options,
+    {
+      queryFn: maybeFunctionHint,
+      getNextPageParam: "function",
+      getPreviousPageParam: "function",
+    }
+  );
+
+  usePrefetch(
+    opts$ as Observable<UseInfiniteQueryOptions<TQueryFnData, TQueryKey, TPageParam> | undefined>,
+    prefetchOptions.trigger,
+    (opts) => resolveInfiniteQueryOptions(opts, get),
+    (resolved) => void queryClient.prefetchInfiniteQuery(resolved)
+  );
+}
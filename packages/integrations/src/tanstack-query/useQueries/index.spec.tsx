@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import { skipToken } from "@tanstack/query-core";
+import { useObservable } from "@legendapp/state/react";
+import { useQueries } from ".";
+import { createWrapper } from "../../__tests__/test-utils";
+
+describe("useQueries", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("Basic Functionality", () => {
+    it("should initialize one pending state per query", () => {
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [
+              { queryKey: ["a"], queryFn },
+              { queryKey: ["b"], queryFn },
+            ],
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.get()).toHaveLength(2);
+      expect(result.current[0].status.get()).toBe("pending");
+      expect(result.current[1].status.get()).toBe("pending");
+    });
+
+    it("should fetch all queries in parallel", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [
+              { queryKey: ["a"], queryFn: () => Promise.resolve("A") },
+              { queryKey: ["b"], queryFn: () => Promise.resolve("B") },
+            ],
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current[1].isSuccess.get()).toBe(true));
+      expect(result.current[0].data.get()).toBe("A");
+      expect(result.current[1].data.get()).toBe("B");
+    });
+
+    it("should refetch a single query via its refetch()", async () => {
+      const queryFnA = vi.fn().mockResolvedValue("A");
+      const queryFnB = vi.fn().mockResolvedValue("B");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [
+              { queryKey: ["a"], queryFn: queryFnA },
+              { queryKey: ["b"], queryFn: queryFnB },
+            ],
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current[1].isSuccess.get()).toBe(true));
+
+      result.current[1].refetch();
+
+      await waitFor(() => expect(queryFnB).toHaveBeenCalledTimes(2));
+      expect(queryFnA).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Observable Reactivity", () => {
+    it("should add and remove queries when the observable list changes", async () => {
+      const ids$ = observable([1, 2]);
+      const queryFn = vi.fn().mockImplementation(({ queryKey }) => Promise.resolve(queryKey[1]));
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: useObservable(() =>
+              ids$.get().map((id) => ({ queryKey: ["users", id], queryFn }))
+            ),
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current[1].isSuccess.get()).toBe(true));
+      expect(queryFn).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        ids$.push(3);
+      });
+
+      await waitFor(() => expect(result.current.get()).toHaveLength(3));
+      await waitFor(() => expect(result.current[2].data.get()).toBe(3));
+
+      act(() => {
+        ids$.set([3]);
+      });
+
+      await waitFor(() => expect(result.current.get()).toHaveLength(1));
+      expect(result.current[0].data.get()).toBe(3);
+      expect(queryFn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should refetch an entry when an observable queryKey element changes", async () => {
+      const id$ = observable("1");
+      const queryFn = vi
+        .fn()
+        .mockImplementation(({ queryKey }) => Promise.resolve(`user-${queryKey[1]}`));
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [{ queryKey: ["users", id$], queryFn }],
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current[0].data.get()).toBe("user-1"));
+
+      act(() => {
+        id$.set("2");
+      });
+
+      await waitFor(() => expect(result.current[0].data.get()).toBe("user-2"));
+      expect(queryClient.getQueryData(["users", "2"])).toBe("user-2");
+    });
+
+    it("should respect per-field observable options", async () => {
+      const enabled$ = observable(false);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [{ queryKey: ["a"], queryFn, enabled: enabled$ }],
+          }),
+        { wrapper }
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(queryFn).not.toHaveBeenCalled();
+
+      act(() => {
+        enabled$.set(true);
+      });
+
+      await waitFor(() => expect(result.current[0].isSuccess.get()).toBe(true));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should disable entries with skipToken or an unresolved key", async () => {
+      const id$ = observable<string | undefined>(undefined);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [
+              { queryKey: ["skipped"], queryFn: skipToken },
+              { queryKey: ["users", id$], queryFn, enabledWhenKeyResolved: true },
+            ],
+          }),
+        { wrapper }
+      );
+
+      expect(result.current[0].isEnabled.get()).toBe(false);
+      expect(result.current[1].isEnabled.get()).toBe(false);
+
+      act(() => {
+        id$.set("1");
+      });
+
+      await waitFor(() => expect(result.current[1].isSuccess.get()).toBe(true));
+      expect(result.current[0].isEnabled.get()).toBe(false);
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("combine", () => {
+    it("should expose the combined result as an observable", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQueries({
+            queries: [
+              { queryKey: ["a"], queryFn: () => Promise.resolve(1) },
+              { queryKey: ["b"], queryFn: () => Promise.resolve(2) },
+            ],
+            combine: (results) => ({
+              isPending: results.some((r) => r.isPending),
+              total: results.reduce((sum, r) => sum + (r.data ?? 0), 0),
+            }),
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.isPending.get()).toBe(true);
+
+      await waitFor(() => expect(result.current.isPending.get()).toBe(false));
+      expect(result.current.total.get()).toBe(3);
+    });
+  });
+
+  describe("Cleanup", () => {
+    it("should unsubscribe on unmount", async () => {
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result, unmount } = renderHook(
+        () =>
+          useQueries({
+            queries: [{ queryKey: ["a"], queryFn }],
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current[0].isSuccess.get()).toBe(true));
+
+      const query = queryClient.getQueryCache().find({ queryKey: ["a"] });
+      expect(query?.getObserversCount()).toBe(1);
+
+      unmount();
+
+      await waitFor(() => expect(query?.getObserversCount()).toBe(0));
+    });
+  });
+});
@@ -0,0 +1,160 @@
+"use client";
+import { useMount, useObservable, useObserve } from "@legendapp/state/react";
+import {
+  QueriesObserver,
+  type QueryObserverOptions,
+  type QueryObserverResult,
+} from "@tanstack/query-core";
+import { useMemo, useRef } from "react";
+import type { Observable } from "@legendapp/state";
+import { get, peek, type DeepMaybeObservable, type MaybeObservable } from "@usels/core";
+import { useQueryClient } from "../useQueryClient";
+import { useIsRestoring } from "../isRestoring";
+import type { QueryState, UseQueryOptions } from "../useQuery";
+import { resolveQueryOptions, subscribeWhenRestored, toQueryState } from "../utils";
+
+/**
+ * Options of one entry of the query list: `useQuery` options without the per-query seed
+ * data (`initialData`, `placeholderData`) and the modes of a single query state
+ * (`suspense`, `twoWay`, `fineGrained`).
+ */
+export type UseQueriesEntry<TData = unknown> = Omit<
+  UseQueryOptions<TData>,
+  "initialData" | "placeholderData" | "suspense" | "twoWay" | "fineGrained"
+>;
+
+/**
+ * State of one entry of the query list: the `useQuery` state without `rollback`, as entries
+ * are read-only mirrors of the cache.
+ */
+export type QueriesEntryState<TData = unknown> = Omit<QueryState<TData>, "rollback">;
+
+/**
+ * Resolves every entry of the query list into plain QueryObserver options.
+ * `read` is `get` inside reactive contexts (registers deps) or `peek` for mount-time snapshots.
+ */
+function resolveQueries<TData>(
+  queries: DeepMaybeObservable<UseQueriesEntry<TData>>[],
+  read: typeof get
+): QueryObserverOptions[] {
+  return queries.map((query) =>
+    resolveQueryOptions(read(query as MaybeObservable<UseQueriesEntry<TData>>), read)
+  ) as QueryObserverOptions[];
+}
+
+export interface UseQueriesOptions<TData = unknown, TCombined = QueriesEntryState<TData>[]> {
+  /**
+   * The list of queries to run in parallel. Either an Observable array (e.g. derived from
+   * `ids$`) or a plain array. Each entry accepts the same options as `useQuery` (except
+   * `initialData`, `placeholderData`, `suspense`, `twoWay` and `fineGrained`), including
+   * Observable fields and Observable elements inside `queryKey`.
+   */
+  queries: MaybeObservable<DeepMaybeObservable<UseQueriesEntry<TData>>[]>;
+  /**
+   * Derives a single value from all query states. Re-runs whenever any query state changes;
+   * the hook then returns the combined result as an Observable instead of the state array.
+   */
+  combine?: (results: QueriesEntryState<TData>[]) => TCombined;
+}
+
+/**
+ * Custom hook that runs a reactive list of queries in parallel, bridging TanStack's
+ * QueriesObserver with Legend-State.
+ *
+ * The number of queries can change over time: when `queries` is an Observable array,
+ * adding or removing entries adds or removes the matching observers automatically.
+ *
+ * @example
+ * ```tsx
+ * const ids$ = observable([1, 2, 3])
+ *
+ * // One query per id
+ * const users$ = useQueries({
+ *   queries: useObservable(() =>
+ *     ids$.get().map((id) => ({
+ *       queryKey: ['users', id],
+ *       queryFn: () => fetchUser(id),
+ *     }))
+ *   ),
+ * })
+ * users$[0].data.get()
+ *
+ * // Combined result — also an Observable
+ * const summary$ = useQueries({
+ *   queries: [
+ *     { queryKey: ['posts'], queryFn: fetchPosts },
+ *     { queryKey: ['comments'], queryFn: fetchComments },
+ *   ],
+ *   combine: (results) => ({
+ *     isPending: results.some((r) => r.isPending),
+ *     data: results.map((r) => r.data),
+ *   }),
+ * })
+ * ```
+ */
+export function useQueries<TData = unknown, TCombined = QueriesEntryState<TData>[]>(
+  options: UseQueriesOptions<TData, TCombined>
+): Observable<TCombined> {
+  const queryClient = useQueryClient();
+  const isRestoring$ = useIsRestoring();
+  const observerRef = useRef<QueriesObserver | null>(null);
+
+  // Latest combine without recomputing on every render
+  const combineRef = useRef(options.combine);
+  combineRef.current = options.combine;
+
+  // Symbol depKey: re-runs the options observer when a plain `queries` array changes
+  // between renders, without handing the array (and its inner Observables) to Legend-State.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const depKey = useMemo(() => Symbol(), [options.queries]);
+
+  const results$ = useObservable<QueriesEntryState<TData>[]>([]);
+
+  // Maps raw observer results to entry states with a per-index refetch
+  const toResults = (results: QueryObserverResult[]): QueriesEntryState<TData>[] =>
+    results.map((result, index) => ({
+      ...toQueryState(result as QueryObserverResult<TData, Error>),
+      refetch() {
+        observerRef.current?.getObservers()[index]?.refetch();
+      },
+    }));
+
+  // Create Observer once (mount-time, non-reactive snapshot)
+  if (observerRef.current === null) {
+    observerRef.current = new QueriesObserver(
+      queryClient,
+      resolveQueries(peek(options.queries) ?? [], peek)
+    );
+    // Seed one pending state per query so the array length is right on the first render
+    results$.set(toResults(observerRef.current.getCurrentResult()));
+  }
+
+  // React to list changes (Observable array) and per-query option changes.
+  // get() on the list, on each entry and inside resolveQueryOptions registers the deps.
+  useObserve(() => {
+    observerRef.current?.setQueries(resolveQueries(get(options.queries) ?? [], get));
+  }, [depKey]);
+
+  const combined$ = useObservable(() => combineRef.current?.(results$.get()));
+
+  // Subscribe once (mount/unmount lifecycle)
+  useMount(() => {
+    const observer = observerRef.current;
+    if (!observer) return;
+
+    // Waits for a PersistQueryClientProvider to restore the cache before fetching
+    const unsubscribe = subscribeWhenRestored(isRestoring$, () =>
+      observer.subscribe((results) => {
+        results$.set(toResults(results));
+      })
+    );
+    // Pick up list changes made between the first render and mount
+    results$.set(toResults(observer.getCurrentResult()));
+
+    return () => {
+      unsubscribe();
+    };
+  });
+
+  return (options.combine ? combined$ : results$) as unknown as Observable<TCombined>;
+}
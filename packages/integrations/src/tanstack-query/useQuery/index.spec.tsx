@@ -1,10 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { renderHook, waitFor } from "@testing-library/react";
+import { Component, Suspense, type ReactNode } from "react";
+import { act, render, renderHook, screen, waitFor } from "@testing-library/react";
 import { observable } from "@legendapp/state";
 import { useObserve } from "@legendapp/state/react";
+import { keepPreviousData, skipToken } from "@tanstack/query-core";
 import { useQuery } from ".";
 import { createWrapper } from "../../__tests__/test-utils";
 
+class ErrorBoundary extends Component<{ children: ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null };
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+  render() {
+    return this.state.error ? <div>caught: {this.state.error.message}</div> : this.props.children;
+  }
+}
+
 describe("useQuery", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -380,6 +392,87 @@ describe("useQuery", () => {
     });
   });
 
+  describe("QueryFunctionContext", () => {
+    it("should pass the resolved queryKey, signal and client to queryFn", async () => {
+      const id$ = observable("1");
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper, queryClient } = createWrapper();
+
+      renderHook(
+        () =>
+          useQuery({
+            queryKey: ["users", { id: id$ }],
+            queryFn,
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+
+      const context = queryFn.mock.calls[0][0];
+      expect(context.queryKey).toEqual(["users", { id: "1" }]);
+      expect(context.signal).toBeInstanceOf(AbortSignal);
+      expect(context.client).toBe(queryClient);
+    });
+
+    it("should abort the in-flight request when an observable key element changes", async () => {
+      const id$ = observable("1");
+      const signals: AbortSignal[] = [];
+      const queryFn = vi.fn().mockImplementation(
+        ({ queryKey, signal }) =>
+          new Promise((resolve) => {
+            signals.push(signal);
+            if (queryKey[1] === "2") resolve("user-2");
+          })
+      );
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["users", id$],
+            queryFn,
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+      expect(signals[0].aborted).toBe(false);
+
+      id$.set("2");
+
+      await waitFor(() => expect(result.current.data.get()).toBe("user-2"));
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it("should abort the in-flight request when the query is cancelled", async () => {
+      let signal: AbortSignal | undefined;
+      const queryFn = vi.fn().mockImplementation(
+        (context) =>
+          new Promise(() => {
+            signal = context.signal;
+          })
+      );
+      const { wrapper, queryClient } = createWrapper();
+
+      renderHook(
+        () =>
+          useQuery({
+            queryKey: ["test"],
+            queryFn,
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+
+      await queryClient.cancelQueries({ queryKey: ["test"] });
+
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
   describe("Query Options", () => {
     it("should respect enabled: false", async () => {
       const queryFn = vi.fn().mockResolvedValue("data");
@@ -873,6 +966,355 @@ describe("useQuery", () => {
     });
   });
 
+  describe("skipToken and enabledWhenKeyResolved", () => {
+    it("should not fetch and report isEnabled false with skipToken", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(() => useQuery({ queryKey: ["user"], queryFn: skipToken }), {
+        wrapper,
+      });
+
+      expect(result.current.isEnabled.get()).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(result.current.fetchStatus.get()).toBe("idle");
+      expect(result.current.isPending.get()).toBe(true);
+    });
+
+    it("should fetch once queryFn switches from skipToken to a function", async () => {
+      const fetchUser = vi.fn().mockResolvedValue("alice");
+      const { wrapper } = createWrapper();
+
+      const { result, rerender } = renderHook(
+        ({ id }: { id: number | undefined }) =>
+          useQuery({ queryKey: ["user", id], queryFn: id ? () => fetchUser(id) : skipToken }),
+        { wrapper, initialProps: { id: undefined as number | undefined } }
+      );
+      expect(result.current.isEnabled.get()).toBe(false);
+
+      rerender({ id: 1 });
+
+      await waitFor(() => expect(result.current.data.get()).toBe("alice"));
+      expect(fetchUser).toHaveBeenCalledWith(1);
+      expect(result.current.isEnabled.get()).toBe(true);
+    });
+
+    it("should fetch a nullish Observable key part without enabledWhenKeyResolved", async () => {
+      const id$ = observable<number | undefined>(undefined);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      renderHook(() => useQuery({ queryKey: ["user", id$], queryFn }), { wrapper });
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+    });
+
+    it("should stay disabled until every Observable key part is set", async () => {
+      const id$ = observable<number | undefined>(undefined);
+      const filter$ = observable<{ org: string | null }>({ org: null });
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["user", id$, { org: filter$.org }],
+            queryFn,
+            enabledWhenKeyResolved: true,
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.isEnabled.get()).toBe(false);
+      act(() => id$.set(1));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(queryFn).not.toHaveBeenCalled();
+      expect(result.current.isEnabled.get()).toBe(false);
+
+      act(() => filter$.org.set("acme"));
+
+      await waitFor(() => expect(result.current.data.get()).toBe("data"));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+      expect(queryFn.mock.calls[0][0].queryKey).toEqual(["user", 1, { org: "acme" }]);
+      expect(result.current.isEnabled.get()).toBe(true);
+    });
+
+    it("should disable the query again when a key part turns nullish", async () => {
+      const id$ = observable<number | null>(1);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["user", id$], queryFn, enabledWhenKeyResolved: true }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isEnabled.get()).toBe(true));
+
+      act(() => id$.set(null));
+
+      await waitFor(() => expect(result.current.isEnabled.get()).toBe(false));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should still respect enabled once the key is resolved", async () => {
+      const id$ = observable<number | undefined>(1);
+      const enabled$ = observable(false);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["user", id$],
+            queryFn,
+            enabled: enabled$,
+            enabledWhenKeyResolved: true,
+          }),
+        { wrapper }
+      );
+      expect(result.current.isEnabled.get()).toBe(false);
+
+      act(() => enabled$.set(true));
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+      expect(result.current.isEnabled.get()).toBe(true);
+    });
+  });
+
+  describe("Data Options", () => {
+    it("should expose the select result while the cache keeps the raw data", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["todos"],
+            queryFn: () => Promise.resolve([{ title: "a" }, { title: "b" }]),
+            select: (todos: { title: string }[]) => todos.map((todo) => todo.title),
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.data.get()).toEqual(["a", "b"]));
+      expect(queryClient.getQueryData(["todos"])).toEqual([{ title: "a" }, { title: "b" }]);
+    });
+
+    it("should re-run select when an Observable it reads changes, without fetching", async () => {
+      const status$ = observable<"open" | "done">("open");
+      const queryFn = vi.fn().mockResolvedValue([
+        { title: "a", status: "open" },
+        { title: "b", status: "done" },
+      ]);
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["todos"],
+            queryFn,
+            select: (todos: { title: string; status: string }[]) =>
+              todos.filter((todo) => todo.status === status$.get()).map((todo) => todo.title),
+          }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.data.get()).toEqual(["a"]));
+
+      act(() => status$.set("done"));
+
+      await waitFor(() => expect(result.current.data.get()).toEqual(["b"]));
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use a select passed on a later render", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result, rerender } = renderHook(
+        ({ suffix }: { suffix: string }) =>
+          useQuery({
+            queryKey: ["name"],
+            queryFn: () => Promise.resolve("ada"),
+            select: (name: string) => name + suffix,
+          }),
+        { wrapper, initialProps: { suffix: "!" } }
+      );
+      await waitFor(() => expect(result.current.data.get()).toBe("ada!"));
+
+      rerender({ suffix: "?" });
+
+      await waitFor(() => expect(result.current.data.get()).toBe("ada?"));
+    });
+
+    it("should surface a throwing select as an error state", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["broken"],
+            queryFn: () => Promise.resolve(1),
+            select: (): number => {
+              throw new Error("select failed");
+            },
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isError.get()).toBe(true));
+      expect(result.current.error.get()?.message).toBe("select failed");
+    });
+
+    it("should show placeholderData until the data arrives", async () => {
+      const { wrapper, queryClient } = createWrapper();
+      let resolve!: (value: string) => void;
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["greeting"],
+            queryFn: () => new Promise<string>((r) => (resolve = r)),
+            placeholderData: "placeholder",
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.data.get()).toBe("placeholder");
+      await waitFor(() => expect(result.current.isPlaceholderData.get()).toBe(true));
+      expect(queryClient.getQueryData(["greeting"])).toBeUndefined();
+
+      await act(async () => resolve("hello"));
+
+      await waitFor(() => expect(result.current.data.get()).toBe("hello"));
+      expect(result.current.isPlaceholderData.get()).toBe(false);
+    });
+
+    it("should keep the previous key's data with keepPreviousData", async () => {
+      const page$ = observable(1);
+      const { wrapper } = createWrapper();
+      const pending: ((value: string) => void)[] = [];
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["page", page$],
+            queryFn: () => new Promise<string>((r) => pending.push(r)),
+            placeholderData: keepPreviousData,
+          }),
+        { wrapper }
+      );
+      await waitFor(() => expect(pending).toHaveLength(1));
+      await act(async () => pending[0]("page 1"));
+      await waitFor(() => expect(result.current.data.get()).toBe("page 1"));
+
+      act(() => page$.set(2));
+
+      await waitFor(() => expect(result.current.isPlaceholderData.get()).toBe(true));
+      expect(result.current.data.get()).toBe("page 1");
+
+      await act(async () => pending[1]("page 2"));
+      await waitFor(() => expect(result.current.data.get()).toBe("page 2"));
+      expect(result.current.isPlaceholderData.get()).toBe(false);
+    });
+
+    it("should seed the cache with fresh initialData without fetching", async () => {
+      const queryFn = vi.fn().mockResolvedValue("fetched");
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["seeded"],
+            queryFn,
+            initialData: () => "initial",
+            initialDataUpdatedAt: Date.now(),
+            staleTime: 60_000,
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.data.get()).toBe("initial");
+      expect(result.current.status.get()).toBe("success");
+      expect(queryClient.getQueryData(["seeded"])).toBe("initial");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(queryFn).not.toHaveBeenCalled();
+    });
+
+    it("should refetch stale initialData", async () => {
+      const { wrapper } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery({
+            queryKey: ["stale-seed"],
+            queryFn: () => Promise.resolve("fetched"),
+            initialData: "initial",
+            initialDataUpdatedAt: 0,
+            staleTime: 1000,
+          }),
+        { wrapper }
+      );
+
+      expect(result.current.data.get()).toBe("initial");
+      await waitFor(() => expect(result.current.data.get()).toBe("fetched"));
+    });
+
+    it("should replace refetched data when structuralSharing is false", async () => {
+      const { wrapper, queryClient } = createWrapper();
+      const queryFn = () => Promise.resolve({ items: [1, 2] });
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["shared"], queryFn, structuralSharing: false }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      const first = queryClient.getQueryData(["shared"]);
+
+      await act(async () => {
+        await queryClient.refetchQueries({ queryKey: ["shared"] });
+      });
+
+      expect(queryClient.getQueryData(["shared"])).toEqual(first);
+      expect(queryClient.getQueryData(["shared"])).not.toBe(first);
+    });
+
+    it("should follow an Observable refetchInterval", async () => {
+      const interval$ = observable<number | false>(false);
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper } = createWrapper();
+
+      renderHook(() => useQuery({ queryKey: ["polled"], queryFn, refetchInterval: interval$ }), {
+        wrapper,
+      });
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+
+      act(() => interval$.set(20));
+      await waitFor(() => expect(queryFn.mock.calls.length).toBeGreaterThanOrEqual(3));
+
+      act(() => interval$.set(false));
+      const calls = queryFn.mock.calls.length;
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(queryFn.mock.calls.length).toBeLessThanOrEqual(calls + 1);
+    });
+
+    it("should pass meta and networkMode to the query", async () => {
+      const meta$ = observable<Record<string, unknown>>({ source: "list" });
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper, queryClient } = createWrapper();
+
+      renderHook(
+        () => useQuery({ queryKey: ["meta"], queryFn, meta: meta$, networkMode: "always" }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(queryFn).toHaveBeenCalledTimes(1));
+      expect(queryFn.mock.calls[0][0].meta).toEqual({ source: "list" });
+      const query = queryClient.getQueryCache().find({ queryKey: ["meta"] });
+      expect(query?.options.networkMode).toBe("always");
+
+      act(() => meta$.set({ source: "detail" }));
+
+      await waitFor(() => expect(query?.meta).toEqual({ source: "detail" }));
+    });
+  });
+
   describe("Cache Key Serialization", () => {
     it("should serialize observable values correctly for cache key", async () => {
       const filter$ = observable<{ category: string }>({
@@ -1186,36 +1628,368 @@ describe("useQuery", () => {
       expect(result.current.data.get()).toBe("data");
     });
 
-    // Note: Testing actual suspense throwing is complex in vitest
-    // as it requires React Suspense boundaries. The logic is tested
-    // by verifying the conditions under which it would throw.
-    it("should have correct state for suspense conditions", async () => {
+    it("should suspend until the first load resolves", async () => {
       const queryFn = vi.fn().mockResolvedValue("data");
-      const { wrapper } = createWrapper();
+      const { wrapper: Wrapper } = createWrapper();
+      const rendered = vi.fn();
+
+      function Content() {
+        const query$ = useQuery({ queryKey: ["test"], queryFn, suspense: true });
+        rendered(query$.data.peek(), query$.status.peek());
+        return <div>{query$.data.peek()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      expect(screen.getByText("loading")).toBeInTheDocument();
+      await waitFor(() => expect(screen.getByText("data")).toBeInTheDocument());
+
+      // Every committed render sees defined data
+      expect(rendered).not.toHaveBeenCalledWith(undefined, expect.anything());
+      expect(rendered).toHaveBeenLastCalledWith("data", "success");
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should suspend again when an observable queryKey element changes", async () => {
+      const id$ = observable("1");
+      const queryFn = vi.fn().mockImplementation(() => Promise.resolve(`user-${id$.peek()}`));
+      const { wrapper: Wrapper, queryClient } = createWrapper();
+
+      function Content() {
+        const query$ = useQuery({ queryKey: ["users", id$], queryFn, suspense: true });
+        return <div>{query$.data.get()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("user-1")).toBeInTheDocument());
+
+      act(() => {
+        id$.set("2");
+      });
+
+      await waitFor(() => expect(screen.getByText("user-2")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(2);
+      expect(queryClient.getQueryData(["users", "2"])).toBe("user-2");
+    });
+
+    it("should throw a failed first load to the nearest error boundary", async () => {
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+      const error = new Error("Query failed");
+      const queryFn = vi.fn().mockRejectedValue(error);
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useQuery({ queryKey: ["test"], queryFn, retry: false, suspense: true });
+        return <div>{String(query$.data.peek())}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <ErrorBoundary>
+            <Suspense fallback={<div>loading</div>}>
+              <Content />
+            </Suspense>
+          </ErrorBoundary>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("caught: Query failed")).toBeInTheDocument());
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("Two-way Binding", () => {
+    type Todo = { id: number; title: string; done: boolean };
+    const todo: Todo = { id: 1, title: "Write tests", done: false };
+
+    it("should write state$.data changes to the cache", async () => {
+      const { wrapper, queryClient } = createWrapper();
 
       const { result } = renderHook(
-        () =>
-          useQuery({
-            queryKey: ["test"],
-            queryFn,
-            suspense: true,
-          }),
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => todo, twoWay: true }),
         { wrapper }
       );
 
-      // Initially should be pending and fetching
-      const initialStatus = (result.current as any).status.get();
-      const initialFetchStatus = (result.current as any).fetchStatus.get();
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
 
-      // These are the conditions that would trigger suspense throw
-      if (initialStatus === "pending" && initialFetchStatus === "fetching") {
-        // Suspense would throw here in a real app with Suspense boundary
-        expect(true).toBe(true);
-      }
+      act(() => {
+        result.current.data.set({ ...todo, title: "Renamed" });
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])?.title).toBe("Renamed");
+    });
+
+    it("should write nested field changes to the cache without mutating cached objects", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => todo, twoWay: true }),
+        { wrapper }
+      );
 
-      // Wait for success
       await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
-      expect(result.current.data.get()).toBe("data");
+      const cachedBefore = queryClient.getQueryData<Todo>(["todo", 1]);
+
+      act(() => {
+        result.current.data.done.set(true);
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])).toEqual({ ...todo, done: true });
+      expect(cachedBefore?.done).toBe(false);
+      expect(todo.done).toBe(false);
+    });
+
+    it("should use the current resolved key", async () => {
+      const id$ = observable(1);
+      const queryFn = vi
+        .fn()
+        .mockImplementation(({ queryKey }) => Promise.resolve({ ...todo, id: queryKey[1] }));
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery<Todo>({ queryKey: ["todo", id$], queryFn, gcTime: 60_000, twoWay: true }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.data.id.get()).toBe(1));
+
+      act(() => {
+        id$.set(2);
+      });
+
+      await waitFor(() => expect(result.current.data.id.get()).toBe(2));
+
+      act(() => {
+        result.current.data.done.set(true);
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 2])?.done).toBe(true);
+      expect(queryClient.getQueryData<Todo>(["todo", 1])?.done).toBe(false);
+    });
+
+    it("should not write observer updates back to the cache", async () => {
+      const { wrapper, queryClient } = createWrapper();
+      const setQueryData = vi.spyOn(queryClient, "setQueryData");
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => todo, twoWay: true }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => {
+        queryClient.setQueryData(["todo", 1], { ...todo, title: "From server" });
+      });
+
+      await waitFor(() => expect(result.current.data.title.get()).toBe("From server"));
+      expect(setQueryData).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep state$.data read-only by default", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => ({ ...todo }) }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => {
+        result.current.data.set({ ...todo, title: "Local only" });
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])?.title).toBe("Write tests");
+    });
+
+    it("should restore the previous cache entry on rollback()", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => todo, twoWay: true }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => {
+        result.current.data.done.set(true);
+        result.current.data.title.set("Renamed");
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])).toEqual({
+        ...todo,
+        done: true,
+        title: "Renamed",
+      });
+
+      act(() => {
+        result.current.rollback();
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])).toEqual(todo);
+      await waitFor(() => expect(result.current.data.get()).toEqual(todo));
+    });
+
+    it("should roll back from a failed mutation's onError", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn: async () => todo, twoWay: true }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      const mutation = queryClient.getMutationCache().build(queryClient, {
+        mutationFn: () => Promise.reject(new Error("Save failed")),
+        onMutate: () => {
+          result.current.data.done.set(true);
+        },
+        onError: () => {
+          result.current.rollback();
+        },
+      });
+
+      await act(() => mutation.execute(undefined).catch(() => {}));
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])?.done).toBe(false);
+      await waitFor(() => expect(result.current.data.done.get()).toBe(false));
+    });
+
+    it("should not roll back once newer data reached the cache", async () => {
+      let title = "v1";
+      const queryFn = vi.fn().mockImplementation(async () => ({ ...todo, title }));
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery({ queryKey: ["todo", 1], queryFn, twoWay: true }),
+        { wrapper }
+      );
+
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => {
+        result.current.data.done.set(true);
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      title = "v2";
+      await act(() => result.current.refetch());
+      await waitFor(() => expect(result.current.data.title.get()).toBe("v2"));
+
+      act(() => {
+        result.current.rollback();
+      });
+
+      expect(queryClient.getQueryData<Todo>(["todo", 1])?.title).toBe("v2");
+    });
+  });
+
+  describe("Fine-grained Data", () => {
+    type List = { items: { id: number; name: string }[]; total?: number };
+    const list = (...names: string[]): List => ({
+      items: names.map((name, id) => ({ id, name })),
+      total: names.length,
+    });
+
+    it("should only notify observables whose leaf values changed", async () => {
+      const queryFn = vi.fn().mockResolvedValueOnce(list("a", "b", "c"));
+      queryFn.mockResolvedValueOnce(list("a", "B", "c"));
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery<List>({ queryKey: ["list"], queryFn, fineGrained: true }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+      const unchanged = vi.fn();
+      const changed = vi.fn();
+      result.current.data.items[0].onChange(unchanged);
+      result.current.data.items[1].name.onChange(changed);
+      const firstItem = result.current.data.items[0].peek();
+
+      await act(async () => {
+        await queryClient.refetchQueries({ queryKey: ["list"] });
+      });
+
+      expect(result.current.data.items[1].name.get()).toBe("B");
+      expect(changed).toHaveBeenCalledTimes(1);
+      expect(unchanged).not.toHaveBeenCalled();
+      expect(result.current.data.items[0].peek()).toBe(firstItem);
+    });
+
+    it("should remove items and keys missing from the new data", async () => {
+      const queryFn = vi.fn().mockResolvedValueOnce(list("a", "b", "c"));
+      queryFn.mockResolvedValueOnce({ items: [{ id: 0, name: "a" }] });
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery<List>({ queryKey: ["list"], queryFn, fineGrained: true }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      await act(async () => {
+        await queryClient.refetchQueries({ queryKey: ["list"] });
+      });
+
+      expect(result.current.data.get()).toEqual({ items: [{ id: 0, name: "a" }] });
+    });
+
+    it("should never mutate the cached data", async () => {
+      const first = list("a", "b");
+      const queryFn = vi.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(list("x", "y"));
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () => useQuery<List>({ queryKey: ["list"], queryFn, fineGrained: true }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      await act(async () => {
+        await queryClient.refetchQueries({ queryKey: ["list"] });
+      });
+
+      expect(result.current.data.items[0].name.get()).toBe("x");
+      expect(first).toEqual(list("a", "b"));
+      expect(queryClient.getQueryData<List>(["list"])).toEqual(list("x", "y"));
+    });
+
+    it("should keep two-way writes flowing to the cache", async () => {
+      const { wrapper, queryClient } = createWrapper();
+
+      const { result } = renderHook(
+        () =>
+          useQuery<List>({
+            queryKey: ["list"],
+            queryFn: () => Promise.resolve(list("a")),
+            fineGrained: true,
+            twoWay: true,
+          }),
+        { wrapper }
+      );
+      await waitFor(() => expect(result.current.isSuccess.get()).toBe(true));
+
+      act(() => result.current.data.items[0].name.set("renamed"));
+
+      expect(queryClient.getQueryData<List>(["list"])?.items[0].name).toBe("renamed");
+      expect(result.current.data.items[0].name.get()).toBe("renamed");
     });
   });
 });
@@ -1,8 +1,19 @@
 "use client";
 import { useMount, useObservable, useObserve } from "@legendapp/state/react";
-import { isObservable } from "@legendapp/state";
-import { QueryKey, QueryObserver } from "@tanstack/query-core";
-import { useRef } from "react";
+import { batch, observe } from "@legendapp/state";
+import {
+  hashKey,
+  QueryKey,
+  QueryObserver,
+  type NetworkMode,
+  type Query,
+  type QueryMeta,
+  type QueryFunction,
+  type QueryObserverOptions,
+  type QueryObserverResult,
+  type SkipToken,
+} from "@tanstack/query-core";
+import { useMemo, useReducer, useRef } from "react";
 import type { Observable } from "@legendapp/state";
 import {
   get,
@@ -12,59 +23,84 @@ import {
   useMaybeObservable,
 } from "@usels/core";
 import { useQueryClient } from "../useQueryClient";
+import { useQueryErrorResetBoundary } from "../QueryErrorResetBoundary";
+import { useIsRestoring } from "../isRestoring";
+import { clonePlainData, reconcileData } from "../../shared/utils";
+import {
+  getSuspenseAction,
+  maybeFunctionHint,
+  resolveQueryOptions,
+  subscribeWhenRestored,
+  toQueryState,
+  withSuspenseOptions,
+} from "../utils";
 
-/**
- * Recursively resolves Observable values within a value.
- * - Observable → .get() (registers dep in observer context)
- * - Array → recursively map
- * - Plain object (not class instance) → recursively map entries
- * - Date, Map, class instances, etc. → as-is
- */
-function deepResolveValue(value: unknown): unknown {
-  if (isObservable(value)) return (value as Observable<unknown>).get();
-  if (Array.isArray(value)) return value.map(deepResolveValue);
-  if (
-    value !== null &&
-    typeof value === "object" &&
-    Object.getPrototypeOf(value) === Object.prototype
-  ) {
-    return Object.fromEntries(
-      Object.entries(value as object).map(([k, v]) => [k, deepResolveValue(v)])
-    );
-  }
-  return value;
-}
-
-/**
- * Resolves a MaybeObservableQueryKey into a plain TanStack QueryKey array.
- * Handles:
- * - queryKey itself being an Observable (e.g. key$)
- * - Array elements being Observables (e.g. ['users', id$])
- * - Nested plain objects with Observable values (e.g. ['users', { id: id$ }])
- *
- * All Observable `.get()` calls register deps in the calling observer context.
- */
-function resolveQueryKey(queryKey: unknown): QueryKey {
-  const arr = isObservable(queryKey) ? (queryKey as Observable<unknown>).get() : queryKey;
-  if (!Array.isArray(arr)) return [];
-  return arr.map(deepResolveValue) as QueryKey;
-}
-
-export interface UseQueryOptions<TData = unknown> {
+export interface UseQueryOptions<TQueryFnData = unknown, TData = TQueryFnData> {
   /**
    * Array whose elements can be plain values, Observables, or nested objects
    * containing Observables. e.g. `['users', id$]` or `['users', { id: id$ }]`.
    * The entire key can also be an Observable array.
    */
   queryKey: readonly unknown[];
-  queryFn: () => Promise<TData>;
+  /**
+   * Receives TanStack's `QueryFunctionContext`. `context.queryKey` is the resolved plain key
+   * (e.g. `['users', '1']`), and consuming `context.signal` lets TanStack abort the request
+   * when the query is cancelled or an observable key element switches to another key.
+   *
+   * Pass TanStack's `skipToken` instead of a function to disable the query type-safely.
+   */
+  queryFn: QueryFunction<TQueryFnData, QueryKey> | SkipToken;
   enabled?: MaybeObservable<boolean>;
+  /**
+   * Set this to `true` to disable the query while any part of the resolved `queryKey` is
+   * `null` or `undefined` — typically an Observable element that is not set yet, as in
+   * `['user', id$]`. The query enables itself once every part is set, and `state$.isEnabled`
+   * follows. Combined with `enabled`, both must allow the query.
+   */
+  enabledWhenKeyResolved?: boolean;
   staleTime?: MaybeObservable<number>;
   gcTime?: MaybeObservable<number>;
   retry?: MaybeObservable<number | boolean>;
   refetchOnWindowFocus?: MaybeObservable<boolean>;
   refetchOnMount?: MaybeObservable<boolean>;
   refetchOnReconnect?: MaybeObservable<boolean>;
+  /**
+   * Refetch every given number of ms while the query is observed, or `false` to stop.
+   * A function receives the query and returns the interval.
+   */
+  refetchInterval?:
+    | MaybeObservable<number | false>
+    | ((query: Query<TQueryFnData, Error, TQueryFnData>) => number | false | undefined);
+  networkMode?: MaybeObservable<NetworkMode>;
+  /** Stored on the query cache entry and passed to `queryFn` as `context.meta`. */
+  meta?: MaybeObservable<QueryMeta>;
+  /**
+   * Transforms the cached data into `state$.data`; the cache keeps the `queryFn` result.
+   * Observables read inside `select` are tracked: changing them re-runs `select` on the
+   * cached data without fetching.
+   */
+  select?: (data: TQueryFnData) => TData;
+  /**
+   * Data shown while the query is pending, without writing it to the cache
+   * (`isPlaceholderData` is `true` meanwhile). A function receives the previous key's data —
+   * pass TanStack's `keepPreviousData` to keep showing it while a new key loads.
+   */
+  placeholderData?: MaybeObservable<
+    | TQueryFnData
+    | ((
+        previousData: TQueryFnData | undefined,
+        previousQuery: Query<TQueryFnData, Error, TQueryFnData> | undefined
+      ) => TQueryFnData | undefined)
+  >;
+  /** Data written to the cache when the query is created, as if it had been fetched. */
+  initialData?: MaybeObservable<TQueryFnData | (() => TQueryFnData | undefined)>;
+  /** When `initialData` was last updated, so `staleTime` can apply to it. */
+  initialDataUpdatedAt?: MaybeObservable<number> | (() => number | undefined);
+  /**
+   * Keeps unchanged parts of refetched data referentially identical (default `true`).
+   * Pass a function to merge old and new data yourself.
+   */
+  structuralSharing?: boolean | ((oldData: unknown, newData: unknown) => unknown);
   /**
    * Set this to `true` to throw errors to the nearest error boundary.
    * Set to a function to control which errors should be thrown.
@@ -72,12 +108,36 @@ export interface UseQueryOptions<TData = unknown> {
   throwOnError?: boolean | ((error: Error) => boolean);
   /**
    * Set this to `true` to enable React Suspense mode.
-   * The hook will throw a promise while fetching, suspending the component.
+   * The hook will throw a promise while the first load is pending, suspending the component.
+   * A failed load with no data is thrown to the nearest error boundary.
    *
    * Note: Requires a React Suspense boundary in the component tree.
-   * The query state is still available as an observable when not suspended.
+   * `staleTime` and `gcTime` are clamped to at least 1000ms, as in react-query.
    */
   suspense?: boolean;
+  /**
+   * Set this to `true` to enable two-way binding with the QueryClient cache.
+   * Writes to `state$.data` (or any nested field) are forwarded to
+   * `queryClient.setQueryData` for the current resolved key, so optimistic edits are a
+   * plain `.set()`. Pair with `rollback()` to restore the cache entry when the mutation fails.
+   * Writes are not forwarded while `select` is set, as `data` then differs from the cache.
+   */
+  twoWay?: boolean;
+  /**
+   * Set this to `true` to diff new data into `state$.data` instead of replacing it.
+   * Only observables whose leaf values changed are notified, so a component bound to
+   * `state$.data.items[3].name` (or a `For` row) skips refetches that left it untouched.
+   * `data` then holds a copy of the cached value, kept up to date in place.
+   */
+  fineGrained?: boolean;
+}
+
+/** Cache entry replaced by the first local write in two-way mode, kept for `rollback()`. */
+interface TwoWaySnapshot<TData> {
+  queryKey: QueryKey;
+  data: TData | undefined;
+  /** `dataUpdatedAt` of the latest local write; newer cache data supersedes the snapshot. */
+  writtenAt: number;
 }
 
 export interface QueryState<TData = unknown> {
@@ -110,6 +170,20 @@ export interface QueryState<TData = unknown> {
   errorUpdateCount: number;
 
   refetch: () => void;
+  /**
+   * Two-way mode: restores the cache entry that local writes to `data` replaced.
+   * No-op when there are no local writes, or when newer data (e.g. a refetch) has
+   * reached the cache since.
+   */
+  rollback: () => void;
+}
+
+/**
+ * Query state returned in suspense mode. The hook only renders once data exists,
+ * so `data` is always defined.
+ */
+export interface DefinedQueryState<TData = unknown> extends Omit<QueryState<TData>, "data"> {
+  data: TData;
 }
 
 /**
@@ -132,16 +206,16 @@ export interface QueryState<TData = unknown> {
  * const id$ = observable('1')
  * const user$ = useQuery({
  *   queryKey: ['users', id$],
- *   queryFn: () => fetchUser(id$.peek()),
+ *   queryFn: ({ queryKey: [, id], signal }) => fetchUser(id as string, { signal }),
  * })
- * // Automatically re-fetches when id$ changes.
+ * // Automatically re-fetches when id$ changes (aborting the in-flight request).
  * // Cache is accessible via queryClient.getQueryData(['users', '1'])
  *
  * // Observable inside a nested object in queryKey
  * const filter$ = observable({ category: 'electronics' })
  * const list$ = useQuery({
  *   queryKey: ['products', { filter: filter$.category }],
- *   queryFn: () => fetchProducts(filter$.category.peek()),
+ *   queryFn: ({ queryKey: [, { filter }] }) => fetchProducts(filter),
  * })
  *
  * // Per-field Observable options
@@ -151,28 +225,84 @@ export interface QueryState<TData = unknown> {
  *   queryFn: fetchData,
  *   enabled: enabled$,
  * })
+ *
+ * // Suspense mode — data is always defined once rendered
+ * const user$ = useQuery({
+ *   queryKey: ['users', id$],
+ *   queryFn: ({ queryKey: [, id] }) => fetchUser(id as string),
+ *   suspense: true,
+ * })
+ *
+ * // Two-way mode — local writes go to the cache, rollback() undoes them
+ * const todo$ = useQuery({ queryKey: ['todo', 1], queryFn: fetchTodo, twoWay: true })
+ * todo$.data.done.set(true) // queryClient.getQueryData(['todo', 1]).done === true
+ * todo$.rollback()
  * ```
  */
-export function useQuery<TData = unknown>(
-  options: DeepMaybeObservable<UseQueryOptions<TData>>
+export function useQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>> & { suspense: true }
+): Observable<DefinedQueryState<TData>>;
+export function useQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>
+): Observable<QueryState<TData>>;
+export function useQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>
+): Observable<QueryState<TData>> {
+  return useBaseQuery(options);
+}
+
+/**
+ * Shared implementation of `useQuery` and `useSuspenseQuery`.
+ *
+ * @param overrides - Observer options forced on top of the resolved user options
+ *   (e.g. `{ suspense: true }` for the dedicated suspense hook)
+ */
+export function useBaseQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>,
+  overrides?: Partial<QueryObserverOptions<TQueryFnData, Error, TData, TQueryFnData>>
 ): Observable<QueryState<TData>> {
   const queryClient = useQueryClient();
-  const observerRef = useRef<QueryObserver<TData, Error> | null>(null);
+  const errorResetBoundary = useQueryErrorResetBoundary();
+  const isRestoring$ = useIsRestoring();
+  const observerRef = useRef<QueryObserver<TQueryFnData, Error, TData, TQueryFnData> | null>(null);
+  // Suspense mode only: re-enters render so a pending result can be thrown
+  const [, forceRender] = useReducer((x: number) => x + 1, 0);
+  // Two-way mode: set while observer results are written into state$, so only user
+  // writes are forwarded to the cache
+  const syncingRef = useRef(false);
+  const snapshotRef = useRef<TwoWaySnapshot<TQueryFnData> | null>(null);
+  // select: disposes the tracking of the Observables read by the latest select call
+  const selectTrackingRef = useRef<(() => void) | null>(null);
 
   // Normalize DeepMaybeObservable<UseQueryOptions> into a stable computed Observable.
-  // - 'function' for queryFn: prevents Legend-State from treating it as a child observable
+  // - 'function' for select/structuralSharing, and maybeFunctionHint for fields that hold a
+  //   function or a value (queryFn may be skipToken): prevents Legend-State from treating
+  //   functions as child observables
   // - 'default' (omitted) for other fields: Observables are kept as-is in the result,
   //   so that get(opts.enabled) inside useObserve explicitly registers the dep
   // - queryKey is NOT listed here: deepResolveValue handles Observable elements directly
-  const opts$ = useMaybeObservable<UseQueryOptions<TData>>(
-    options as DeepMaybeObservable<UseQueryOptions<TData>>,
+  const opts$ = useMaybeObservable<UseQueryOptions<TQueryFnData, TData>>(
+    options as DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>,
     {
-      queryFn: "function",
+      queryFn: maybeFunctionHint,
+      select: "function",
+      structuralSharing: maybeFunctionHint,
+      placeholderData: maybeFunctionHint,
+      initialData: maybeFunctionHint,
+      initialDataUpdatedAt: maybeFunctionHint,
+      refetchInterval: maybeFunctionHint,
     }
   );
 
-  // Non-reactive snapshot for the initial Observer creation (mount-time only)
-  const initialOpts = opts$.peek();
+  // Bumped when an Observable read by `select` changes; re-runs the options observer below
+  const selectVersion$ = useObservable(0);
+
+  // Latest options, typed: Legend-State's Observable type loses fields typed by generics
+  const peekOpts = () => opts$.peek() as UseQueryOptions<TQueryFnData, TData> | undefined;
+
+  // Non-reactive snapshot of the latest options: creates the Observer on mount and keys
+  // function-only changes below
+  const latestOpts = peekOpts();
 
   const state$ = useObservable<QueryState<TData>>({
     data: undefined as TData | undefined,
@@ -193,7 +323,9 @@ export function useQuery<TData = unknown>(
     isPlaceholderData: false,
     isFetched: false,
     isFetchedAfterMount: false,
-    isEnabled: get(initialOpts?.enabled) ?? true,
+    isEnabled:
+      (overrides?.enabled as boolean | undefined) ??
+      (resolveQueryOptions(latestOpts ?? {}, peek).enabled as boolean),
     dataUpdatedAt: 0,
     errorUpdatedAt: 0,
     failureCount: 0,
@@ -202,97 +334,195 @@ export function useQuery<TData = unknown>(
     refetch() {
       observerRef.current?.refetch();
     },
+    rollback() {
+      const snapshot = snapshotRef.current;
+      snapshotRef.current = null;
+      if (!snapshot || !isSnapshotLive(snapshot, snapshot.queryKey)) return;
+      if (snapshot.data === undefined) {
+        // The cache had no data before the local writes: back to the initial state
+        void queryClient.resetQueries({ queryKey: snapshot.queryKey, exact: true });
+      } else {
+        queryClient.setQueryData(snapshot.queryKey, snapshot.data);
+      }
+    },
   });
 
+  // A snapshot only applies to its own key, and only until newer data reaches that entry
+  const isSnapshotLive = (snapshot: TwoWaySnapshot<TQueryFnData>, queryKey: QueryKey) =>
+    hashKey(snapshot.queryKey) === hashKey(queryKey) &&
+    (queryClient.getQueryState(snapshot.queryKey)?.dataUpdatedAt ?? 0) <= snapshot.writtenAt;
+
+  // Writes an observer result into state$. In two-way mode data is cloned, so local
+  // writes never mutate the object held by the cache. In fine-grained mode data is diffed
+  // into the copy already held by state$ (reconcileData clones whatever it writes).
+  const applyResult = (result: QueryObserverResult<TData, Error>) => {
+    const { data, ...next } = toQueryState(result);
+    const opts = peekOpts();
+    syncingRef.current = true;
+    batch(() => {
+      const data$ = (state$ as unknown as Observable<{ data: unknown }>).data;
+      if (opts?.fineGrained) reconcileData(data$, data);
+      else data$.set((opts?.twoWay ? clonePlainData(data) : data) as never);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      state$.assign(next as any);
+    });
+    syncingRef.current = false;
+  };
+
+  // Wraps `select` so that the Observables it reads are tracked. TanStack only re-runs select
+  // for new data or a new select function: when a tracked Observable changes, bumping
+  // selectVersion$ re-runs the options observer, whose fresh wrapper makes TanStack select again.
+  const resolveOptions = (
+    opts: Partial<UseQueryOptions<TQueryFnData, TData>>,
+    read: typeof get
+  ) => {
+    const resolved = resolveQueryOptions(opts, read);
+    const select = resolved.select;
+    if (select) {
+      resolved.select = (data) => {
+        // Only the latest call is tracked. A fired tracker disposes itself; one left behind
+        // by an unmounted component is dropped on its next change.
+        selectTrackingRef.current?.();
+        let result = { error: undefined } as { value: TData } | { error: unknown };
+        selectTrackingRef.current = observe((e) => {
+          if (e.num > 0) {
+            selectTrackingRef.current?.();
+            selectTrackingRef.current = null;
+            selectVersion$.set((version) => version + 1);
+            return;
+          }
+          // Thrown outside observe, where TanStack turns it into an error state
+          try {
+            result = { value: select(data) };
+          } catch (error) {
+            result = { error };
+          }
+        });
+        if ("error" in result) throw result.error;
+        return result.value;
+      };
+    }
+    return { ...resolved, ...overrides };
+  };
+
   // Create Observer once (mount-time, non-reactive snapshot).
   // resolveQueryKey returns the real array (e.g. ['users', '1']),
   // NOT a wrapped-serialized string, so queryClient.getQueryData(['users','1']) works.
   if (observerRef.current === null) {
-    const initialQueryKey = resolveQueryKey(initialOpts?.queryKey ?? []);
-    observerRef.current = new QueryObserver<TData, Error>(queryClient, {
-      queryKey: initialQueryKey,
-      queryFn: initialOpts?.queryFn ?? (() => Promise.resolve(undefined as TData)),
-      enabled: peek(initialOpts?.enabled) ?? true,
-      staleTime: peek(initialOpts?.staleTime),
-      gcTime: peek(initialOpts?.gcTime),
-      retry: peek(initialOpts?.retry as MaybeObservable<number | boolean>),
-      refetchOnWindowFocus: peek(initialOpts?.refetchOnWindowFocus),
-      refetchOnMount: peek(initialOpts?.refetchOnMount),
-      refetchOnReconnect: peek(initialOpts?.refetchOnReconnect),
-      throwOnError: initialOpts?.throwOnError as never,
-    });
+    observerRef.current = new QueryObserver(
+      queryClient,
+      withSuspenseOptions(queryClient, resolveOptions(latestOpts ?? {}, peek), errorResetBoundary)
+    );
+    // Data already in the cache (e.g. hydrated from a server render) shows up on the first
+    // render — also on the server, where the observer never subscribes
+    const initialResult = observerRef.current.getCurrentResult();
+    if (initialResult.status !== "pending") applyResult(initialResult);
   }
 
   // React to option changes (including queryKey Observable elements).
   // Dependencies registered here:
   //   - opts$.get() → tracks opts$ (outer observable or per-render plain object changes)
-  //   - resolveQueryKey(opts.queryKey) → deepResolveValue calls .get() on each Observable
-  //     element inside queryKey, registering individual deps
-  //   - get(opts.enabled) etc. → explicitly registers deps on per-field Observables
+  //   - resolveQueryOptions(opts, get) → resolveQueryKey/deepResolveValue call .get() on each
+  //     Observable element inside queryKey, and get(opts.enabled) etc. explicitly register
+  //     deps on per-field Observables
   //
   // setOptions() with a new queryKey lets TanStack decide whether to fetch or use cache
   // (respects staleTime, gcTime). No manual refetch() needed.
+  //
+  // Legend-State does not notify opts$ when only a function field changes, so a Symbol depKey
+  // re-runs the observer when an inline `select` closes over new render values
+  const selectFnKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [latestOpts?.select]
+  );
   useObserve(() => {
-    const opts = opts$.get();
+    const opts = opts$.get() as UseQueryOptions<TQueryFnData, TData> | undefined;
+    selectVersion$.get();
     if (!opts) return;
 
-    const resolvedKey = resolveQueryKey(opts.queryKey ?? []);
+    // opts.queryFn: with 'function' hint, stored directly (not as child observable).
+    // Access via opts$.get().queryFn (POJO property) gives the callable function.
+    observerRef.current?.setOptions(
+      withSuspenseOptions(queryClient, resolveOptions(opts, get), errorResetBoundary)
+    );
+  }, [selectFnKey]);
 
-    observerRef.current?.setOptions({
-      queryKey: resolvedKey,
-      // opts.queryFn: with 'function' hint, stored directly (not as child observable).
-      // Access via opts$.get().queryFn (POJO property) gives the callable function.
-      queryFn: opts.queryFn,
-      enabled: get(opts.enabled) ?? true,
-      staleTime: get(opts.staleTime),
-      gcTime: get(opts.gcTime),
-      retry: get(opts.retry as MaybeObservable<number | boolean>),
-      refetchOnWindowFocus: get(opts.refetchOnWindowFocus),
-      refetchOnMount: get(opts.refetchOnMount),
-      refetchOnReconnect: get(opts.refetchOnReconnect),
-      throwOnError: opts.throwOnError as never,
-    });
-  });
+  // `throwOnError` as passed by the user; the observer option is typed with TanStack's
+  // `(error, query)` signature
+  const throwOnError = () =>
+    observerRef.current?.options.throwOnError as boolean | ((error: Error) => boolean) | undefined;
 
   // Subscribe once (mount/unmount lifecycle)
   useMount(() => {
     const observer = observerRef.current;
     if (!observer) return;
 
-    const unsubscribe = observer.subscribe((result) => {
-      state$.assign({
-        data: result.data,
-        error: result.error ?? null,
-        status: result.status,
-        fetchStatus: result.fetchStatus as "fetching" | "paused" | "idle",
-        isPending: result.isPending,
-        isSuccess: result.isSuccess,
-        isError: result.isError,
-        isLoadingError: result.isLoadingError,
-        isRefetchError: result.isRefetchError,
-        isFetching: result.isFetching,
-        isPaused: result.isPaused,
-        isRefetching: result.isRefetching,
-        isLoading: result.isLoading,
-        isInitialLoading: result.isLoading,
-        isStale: result.isStale,
-        isPlaceholderData: result.isPlaceholderData,
-        isFetched: result.isFetched,
-        isFetchedAfterMount: result.isFetchedAfterMount,
-        isEnabled: result.isEnabled ?? true,
-        dataUpdatedAt: result.dataUpdatedAt,
-        errorUpdatedAt: result.errorUpdatedAt,
-        failureCount: result.failureCount,
-        failureReason: result.failureReason ?? null,
-        errorUpdateCount: result.errorUpdateCount,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } as any);
+    // Committed: a QueryErrorResetBoundary reset has been consumed
+    errorResetBoundary.clearReset();
+
+    // Waits for a PersistQueryClientProvider to restore the cache before fetching
+    const unsubscribe = subscribeWhenRestored(isRestoring$, () =>
+      observer.subscribe((result) => {
+        // Suspense mode: a pending (or failed, data-less) result — e.g. after an observable
+        // queryKey element changes — is surfaced by re-rendering into the throw path below.
+        // state$ keeps the last resolved data meanwhile, so `data` stays defined.
+        if (
+          observer.options.suspense &&
+          getSuspenseAction(result, throwOnError(), errorResetBoundary)
+        ) {
+          forceRender();
+          return;
+        }
+        applyResult(result);
+      })
+    );
+
+    // Two-way mode: forward local writes to the cache entry of the current key.
+    // Fires for nested writes too (e.g. state$.data.items[0].done.set(true)).
+    const data$ = (state$ as unknown as Observable<{ data: unknown }>).data;
+    const unsubscribeData = data$.onChange(() => {
+      // select: data no longer has the cache's shape
+      const opts = peekOpts();
+      if (syncingRef.current || !opts?.twoWay || opts.select) return;
+
+      const queryKey = observer.options.queryKey;
+      let snapshot = snapshotRef.current;
+      if (!snapshot || !isSnapshotLive(snapshot, queryKey)) {
+        snapshot = {
+          queryKey,
+          data: queryClient.getQueryData<TQueryFnData>(queryKey),
+          writtenAt: 0,
+        };
+        snapshotRef.current = snapshot;
+      }
+      queryClient.setQueryData(queryKey, clonePlainData(data$.peek()));
+      snapshot.writtenAt = queryClient.getQueryState(queryKey)?.dataUpdatedAt ?? 0;
     });
 
     return () => {
       unsubscribe();
+      unsubscribeData();
     };
   });
 
+  // Suspense mode (mirrors react-query's useBaseQuery): throw the fetch promise while the
+  // first load is pending. The promise syncs state$ before React retries the render.
+  const observer = observerRef.current;
+  if (observer.options.suspense) {
+    const result = observer.getOptimisticResult(queryClient.defaultQueryOptions(observer.options));
+    const action = getSuspenseAction(result, throwOnError(), errorResetBoundary);
+    if (action === "suspend") {
+      throw observer.fetchOptimistic(observer.options).then(applyResult, () => {
+        // Rejection is read from the query state on the retry render
+      });
+    }
+    if (action === "error") throw result.error;
+    // Retry render of a freshly mounted instance: seed state$ from the cache
+    if ((state$.peek() as QueryState<TData>).status === "pending") {
+      applyResult(result);
+    }
+  }
+
   return state$;
 }
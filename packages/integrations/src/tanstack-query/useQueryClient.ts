@@ -1,6 +1,6 @@
 "use client";
 import { useContext } from "react";
-import { QueryClient } from "@tanstack/react-query";
+import type { QueryClient } from "@tanstack/query-core";
 import { QueryClientContext } from "./QueryClientProvider";
 
 /**
@@ -0,0 +1,270 @@
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from "vitest";
+import { Component, Suspense, type ReactNode } from "react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import { useSuspenseQuery } from ".";
+import { QueryErrorResetBoundary } from "../QueryErrorResetBoundary";
+import { createWrapper } from "../../__tests__/test-utils";
+
+class ErrorBoundary extends Component<
+  { children: ReactNode; onReset?: () => void },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+  render() {
+    if (!this.state.error) return this.props.children;
+    return (
+      <button
+        onClick={() => {
+          this.props.onReset?.();
+          this.setState({ error: null });
+        }}
+      >
+        caught: {this.state.error.message}
+      </button>
+    );
+  }
+}
+
+describe("useSuspenseQuery", () => {
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  describe("Suspense", () => {
+    it("should suspend until data is loaded and render with success state", async () => {
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper: Wrapper } = createWrapper();
+      const rendered = vi.fn();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["test"], queryFn });
+        rendered(query$.data.peek(), query$.status.peek());
+        return <div>{query$.data.get()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      expect(screen.getByText("loading")).toBeInTheDocument();
+      await waitFor(() => expect(screen.getByText("data")).toBeInTheDocument());
+
+      expect(rendered).not.toHaveBeenCalledWith(undefined, expect.anything());
+      expect(rendered).toHaveBeenLastCalledWith("data", "success");
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should type data as the result of select", async () => {
+      const queryFn = vi.fn().mockResolvedValue({ name: "Ada", age: 36 });
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const user$ = useSuspenseQuery({
+          queryKey: ["user"],
+          queryFn: (): Promise<{ name: string; age: number }> => queryFn(),
+          select: (user: { name: string; age: number }) => user.name.length,
+        });
+        expectTypeOf(user$.data.peek()).toEqualTypeOf<number>();
+        return <div>{`length: ${user$.data.get()}`}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("length: 3")).toBeInTheDocument());
+    });
+
+    it("should suspend again when an observable queryKey element changes", async () => {
+      const id$ = observable("1");
+      const queryFn = vi
+        .fn()
+        .mockImplementation(({ queryKey }) => Promise.resolve(`user-${queryKey[1]}`));
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["users", id$], queryFn });
+        return <div>{query$.data.get()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("user-1")).toBeInTheDocument());
+
+      act(() => {
+        id$.set("2");
+      });
+
+      await waitFor(() => expect(screen.getByText("user-2")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ignore an enabled option passed at runtime", async () => {
+      const queryFn = vi.fn().mockResolvedValue("data");
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({
+          queryKey: ["test"],
+          queryFn,
+          ...({ enabled: false } as object),
+        });
+        return <div>{query$.data.get()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <Suspense fallback={<div>loading</div>}>
+            <Content />
+          </Suspense>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("data")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Error Boundary", () => {
+    it("should throw a failed load to the nearest error boundary", async () => {
+      const queryFn = vi.fn().mockRejectedValue(new Error("Query failed"));
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["test"], queryFn, retry: false });
+        return <div>{query$.data.get() as string}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <ErrorBoundary>
+            <Suspense fallback={<div>loading</div>}>
+              <Content />
+            </Suspense>
+          </ErrorBoundary>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("caught: Query failed")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw a failed background refetch to the error boundary", async () => {
+      const queryFn = vi
+        .fn()
+        .mockResolvedValueOnce("data")
+        .mockRejectedValueOnce(new Error("Refetch failed"));
+      const { wrapper: Wrapper, queryClient } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["test"], queryFn, retry: false });
+        return <div>{query$.data.get()}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <ErrorBoundary>
+            <Suspense fallback={<div>loading</div>}>
+              <Content />
+            </Suspense>
+          </ErrorBoundary>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("data")).toBeInTheDocument());
+
+      await act(() => queryClient.refetchQueries({ queryKey: ["test"] }));
+
+      await waitFor(() => expect(screen.getByText("caught: Refetch failed")).toBeInTheDocument());
+    });
+
+    it("should not refetch when the boundary re-renders without a reset", async () => {
+      const queryFn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Query failed"))
+        .mockResolvedValueOnce("data");
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["test"], queryFn, retry: false });
+        return <div>{query$.data.get() as string}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <ErrorBoundary>
+            <Suspense fallback={<div>loading</div>}>
+              <Content />
+            </Suspense>
+          </ErrorBoundary>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("caught: Query failed")).toBeInTheDocument());
+
+      fireEvent.click(screen.getByText("caught: Query failed"));
+
+      await waitFor(() => expect(screen.getByText("caught: Query failed")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refetch after QueryErrorResetBoundary reset", async () => {
+      const queryFn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Query failed"))
+        .mockResolvedValueOnce("data");
+      const { wrapper: Wrapper } = createWrapper();
+
+      function Content() {
+        const query$ = useSuspenseQuery({ queryKey: ["test"], queryFn, retry: false });
+        return <div>{query$.data.get() as string}</div>;
+      }
+
+      render(
+        <Wrapper>
+          <QueryErrorResetBoundary>
+            {({ reset }) => (
+              <ErrorBoundary onReset={reset}>
+                <Suspense fallback={<div>loading</div>}>
+                  <Content />
+                </Suspense>
+              </ErrorBoundary>
+            )}
+          </QueryErrorResetBoundary>
+        </Wrapper>
+      );
+
+      await waitFor(() => expect(screen.getByText("caught: Query failed")).toBeInTheDocument());
+
+      fireEvent.click(screen.getByText("caught: Query failed"));
+
+      await waitFor(() => expect(screen.getByText("data")).toBeInTheDocument());
+      expect(queryFn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+"use client";
+import type { Observable } from "@legendapp/state";
+import type { SkipToken } from "@tanstack/query-core";
+import type { DeepMaybeObservable } from "@usels/core";
+import { useBaseQuery, type QueryState, type UseQueryOptions } from "../useQuery";
+
+/**
+ * `useQuery` options without the fields that make no sense for a suspense query:
+ * the query always runs (so `skipToken` is not accepted either), never shows placeholder data
+ * and always throws its errors.
+ */
+export type UseSuspenseQueryOptions<TQueryFnData = unknown, TData = TQueryFnData> = Omit<
+  UseQueryOptions<TQueryFnData, TData>,
+  "enabled" | "enabledWhenKeyResolved" | "placeholderData" | "suspense" | "throwOnError" | "queryFn"
+> & {
+  queryFn: Exclude<UseQueryOptions<TQueryFnData, TData>["queryFn"], SkipToken>;
+};
+
+/**
+ * Query state of a suspense query. The component only renders with successfully loaded
+ * data — pending loads suspend and errors are thrown to the nearest error boundary.
+ */
+export interface SuspenseQueryState<TData = unknown> extends Omit<
+  QueryState<TData>,
+  | "data"
+  | "error"
+  | "status"
+  | "isPending"
+  | "isSuccess"
+  | "isError"
+  | "isLoading"
+  | "isInitialLoading"
+  | "isLoadingError"
+  | "isRefetchError"
+  | "isPlaceholderData"
+> {
+  data: TData;
+  error: null;
+  status: "success";
+  isPending: false;
+  isSuccess: true;
+  isError: false;
+  isLoading: false;
+  isInitialLoading: false;
+  isLoadingError: false;
+  isRefetchError: false;
+  isPlaceholderData: false;
+}
+
+/**
+ * Suspense variant of `useQuery`, like TanStack v5's `useSuspenseQuery`.
+ *
+ * Suspends while the first load (or the load of a new key) is pending, and throws errors to
+ * the nearest error boundary. Unlike `useQuery({ suspense: true })`, background refetch errors
+ * are thrown as well, so the returned state is always `status: 'success'` with defined `data`.
+ * Use a `QueryErrorResetBoundary` to let the query fetch again after the boundary is reset.
+ *
+ * @example
+ * ```tsx
+ * const id$ = observable('1')
+ *
+ * function UserProfile() {
+ *   const user$ = useSuspenseQuery({
+ *     queryKey: ['users', id$],
+ *     queryFn: ({ queryKey: [, id] }) => fetchUser(id as string),
+ *   })
+ *   return <p>{user$.data.name.get()}</p> // data is never undefined
+ * }
+ * ```
+ */
+export function useSuspenseQuery<TQueryFnData = unknown, TData = TQueryFnData>(
+  options: DeepMaybeObservable<UseSuspenseQueryOptions<TQueryFnData, TData>>
+): Observable<SuspenseQueryState<TData>> {
+  return useBaseQuery(options as DeepMaybeObservable<UseQueryOptions<TQueryFnData, TData>>, {
+    suspense: true,
+    enabled: true,
+    throwOnError: true,
+    placeholderData: undefined,
+  }) as unknown as Observable<SuspenseQueryState<TData>>;
+}
@@ -0,0 +1,276 @@
+import { isObservable, ObservableHint } from "@legendapp/state";
+import type { Observable } from "@legendapp/state";
+import {
+  skipToken,
+  type MutationFilters,
+  type QueryClient,
+  type QueryFilters,
+  type QueryKey,
+  type QueryObserverOptions,
+  type QueryObserverResult,
+} from "@tanstack/query-core";
+import { get, type AnyFn, type DeepMaybeObservable, type MaybeObservable } from "@usels/core";
+import type { QueryState, UseQueryOptions } from "./useQuery";
+import type { QueryErrorResetBoundaryValue } from "./QueryErrorResetBoundary";
+
+/**
+ * Minimum stale/gc time applied in suspense mode (same value as react-query).
+ * A suspended component never subscribes its observer, so with `gcTime: 0` the
+ * fetched data would be evicted before the retry render could read it.
+ */
+const MIN_SUSPENSE_TIME_MS = 1000;
+
+/**
+ * Recursively resolves Observable values within a value.
+ * - Observable → .get() (registers dep in observer context)
+ * - Array → recursively map
+ * - Plain object (not class instance) → recursively map entries
+ * - Date, Map, class instances, etc. → as-is
+ */
+export function deepResolveValue(value: unknown): unknown {
+  if (isObservable(value)) return (value as Observable<unknown>).get();
+  if (Array.isArray(value)) return value.map(deepResolveValue);
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value as object).map(([k, v]) => [k, deepResolveValue(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves a MaybeObservableQueryKey into a plain TanStack QueryKey array.
+ * Handles:
+ * - queryKey itself being an Observable (e.g. key$)
+ * - Array elements being Observables (e.g. ['users', id$])
+ * - Nested plain objects with Observable values (e.g. ['users', { id: id$ }])
+ *
+ * All Observable `.get()` calls register deps in the calling observer context.
+ */
+export function resolveQueryKey(queryKey: unknown): QueryKey {
+  const arr = isObservable(queryKey) ? (queryKey as Observable<unknown>).get() : queryKey;
+  if (!Array.isArray(arr)) return [];
+  return arr.map(deepResolveValue) as QueryKey;
+}
+
+/**
+ * Whether a resolved queryKey still contains `null` or `undefined` anywhere — typically an
+ * Observable key element that has not been set yet. Arrays and plain objects are walked.
+ */
+export function hasNullishKeyPart(value: unknown): boolean {
+  if (value == null) return true;
+  if (Array.isArray(value)) return value.some(hasNullishKeyPart);
+  if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.values(value as object).some(hasNullishKeyPart);
+  }
+  return false;
+}
+
+/**
+ * `useMaybeObservable` field hint for fields holding either a function or a value, such as
+ * `queryFn` (TanStack's `skipToken` is a symbol) or `initialData`. Functions get the
+ * `'function'` hint; any other value is passed through as-is, since the hint cannot be
+ * attached to primitives.
+ */
+export function maybeFunctionHint(value: MaybeObservable<unknown>): unknown {
+  return markFunction(get(value) as unknown);
+}
+
+function markFunction(value: unknown) {
+  return typeof value === "function" ? ObservableHint.function(value as AnyFn) : value;
+}
+
+/**
+ * Resolves query or mutation filters with per-field Observables into plain TanStack filters.
+ * `queryKey`/`mutationKey` go through `resolveQueryKey`, so they may contain Observable
+ * elements just like `useQuery`'s key; `predicate` is passed through as-is.
+ *
+ * @param filters - Filters object, or an Observable of it
+ * @param read - `get` inside reactive contexts (registers deps) or `peek` for one-off snapshots
+ */
+export function resolveFilters<TFilters extends QueryFilters | MutationFilters>(
+  filters: DeepMaybeObservable<TFilters> | undefined,
+  read: typeof get
+): TFilters {
+  const raw = (read(filters as MaybeObservable<TFilters> | undefined) ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const resolved: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    if (key === "queryKey" || key === "mutationKey") resolved[key] = resolveQueryKey(value);
+    else if (key === "predicate") resolved[key] = value;
+    else {
+      const plain = read(value as MaybeObservable<unknown>);
+      if (plain !== undefined) resolved[key] = plain;
+    }
+  }
+  return resolved as TFilters;
+}
+
+/**
+ * Resolves `UseQueryOptions` with per-field Observables into plain QueryObserver options.
+ *
+ * @param opts - Options whose fields may be Observables
+ * @param read - `get` inside reactive contexts (registers deps) or `peek` for mount-time snapshots
+ */
+export function resolveQueryOptions<TQueryFnData, TData = TQueryFnData>(
+  opts: Partial<UseQueryOptions<TQueryFnData, TData>>,
+  read: typeof get
+): QueryObserverOptions<TQueryFnData, Error, TData, TQueryFnData> {
+  const queryKey = resolveQueryKey(opts.queryKey ?? []);
+  // skipToken, and with `enabledWhenKeyResolved` a nullish key part, disable the query
+  // without reading `enabled`
+  const disabled =
+    opts.queryFn === skipToken ||
+    (opts.enabledWhenKeyResolved === true && hasNullishKeyPart(queryKey));
+  const resolved: QueryObserverOptions<TQueryFnData, Error, TData, TQueryFnData> = {
+    queryKey,
+    // queryFn/select/structuralSharing/throwOnError are never Observables
+    // (function hint or plain value)
+    queryFn: opts.queryFn ?? (() => Promise.resolve(undefined as TQueryFnData)),
+    enabled: disabled ? false : (read(opts.enabled) ?? true),
+    staleTime: read(opts.staleTime),
+    gcTime: read(opts.gcTime),
+    retry: read(opts.retry as MaybeObservable<number | boolean>),
+    refetchOnWindowFocus: read(opts.refetchOnWindowFocus),
+    refetchOnMount: read(opts.refetchOnMount),
+    refetchOnReconnect: read(opts.refetchOnReconnect),
+    refetchInterval: read(opts.refetchInterval as MaybeObservable<number | false>),
+    networkMode: read(opts.networkMode),
+    meta: read(opts.meta),
+    select: opts.select,
+    placeholderData: read(opts.placeholderData as MaybeObservable<unknown>) as never,
+    initialData: read(opts.initialData as MaybeObservable<unknown>) as never,
+    initialDataUpdatedAt: read(opts.initialDataUpdatedAt as MaybeObservable<number>),
+    structuralSharing: opts.structuralSharing,
+    throwOnError: opts.throwOnError as never,
+    suspense: read(opts.suspense),
+  };
+
+  // Unset options must fall back to the QueryClient defaults. `defaultQueryOptions` spreads
+  // the options over the defaults, so an explicit `undefined` would shadow them.
+  for (const key of Object.keys(resolved) as (keyof typeof resolved)[]) {
+    if (resolved[key] === undefined) delete resolved[key];
+  }
+  return resolved;
+}
+
+/**
+ * Calls `subscribe` once a PersistQueryClientProvider has restored its cache (right away when
+ * nothing is restoring), so observers never fetch data that is about to be restored.
+ * Returns a cleanup that unsubscribes, or cancels the pending start.
+ */
+export function subscribeWhenRestored(
+  isRestoring$: Observable<boolean>,
+  subscribe: () => () => void
+): () => void {
+  if (!isRestoring$.peek()) return subscribe();
+  let unsubscribe: (() => void) | null = null;
+  const stopWaiting = isRestoring$.onChange(({ value }) => {
+    if (value) return;
+    stopWaiting();
+    unsubscribe = subscribe();
+  });
+  return () => {
+    stopWaiting();
+    unsubscribe?.();
+  };
+}
+
+/** Maps a QueryObserver result onto the observable state fields. */
+export function toQueryState<TData>(
+  result: QueryObserverResult<TData, Error>
+): Omit<QueryState<TData>, "refetch" | "rollback"> {
+  return {
+    data: result.data,
+    error: result.error ?? null,
+    status: result.status,
+    fetchStatus: result.fetchStatus as "fetching" | "paused" | "idle",
+    isPending: result.isPending,
+    isSuccess: result.isSuccess,
+    isError: result.isError,
+    isLoadingError: result.isLoadingError,
+    isRefetchError: result.isRefetchError,
+    isFetching: result.isFetching,
+    isPaused: result.isPaused,
+    isRefetching: result.isRefetching,
+    isLoading: result.isLoading,
+    isInitialLoading: result.isLoading,
+    isStale: result.isStale,
+    isPlaceholderData: result.isPlaceholderData,
+    isFetched: result.isFetched,
+    isFetchedAfterMount: result.isFetchedAfterMount,
+    isEnabled: result.isEnabled ?? true,
+    dataUpdatedAt: result.dataUpdatedAt,
+    errorUpdatedAt: result.errorUpdatedAt,
+    failureCount: result.failureCount,
+    failureReason: result.failureReason ?? null,
+    errorUpdateCount: result.errorUpdateCount,
+  };
+}
+
+/**
+ * Prepares observer options for suspense mode, mirroring react-query's
+ * `ensureSuspenseTimers` and `ensurePreventErrorBoundaryRetry`. Non-suspense options are
+ * returned untouched.
+ * - applies QueryClient defaults first, so client-level `staleTime`/`gcTime` are clamped too
+ * - enables optimistic results so `getOptimisticResult` reports `isPending` before subscribe
+ * - disables `retryOnMount` unless the error boundary was reset, so a load that failed into
+ *   the error boundary is not re-fetched (and re-suspended) by every retry render
+ */
+export function withSuspenseOptions<
+  TQueryFnData,
+  TData,
+  TQueryData,
+  TQueryKey extends QueryKey,
+  TPageParam,
+>(
+  queryClient: QueryClient,
+  options: QueryObserverOptions<TQueryFnData, Error, TData, TQueryData, TQueryKey, TPageParam>,
+  errorResetBoundary: QueryErrorResetBoundaryValue
+): QueryObserverOptions<TQueryFnData, Error, TData, TQueryData, TQueryKey, TPageParam> {
+  if (!options.suspense) return options;
+
+  const defaulted = queryClient.defaultQueryOptions(options) as typeof options;
+  defaulted._optimisticResults = "optimistic";
+  if (!errorResetBoundary.isReset()) defaulted.retryOnMount = false;
+
+  const clamp = (value: number | "static" | undefined) =>
+    value === "static" ? value : Math.max(value ?? MIN_SUSPENSE_TIME_MS, MIN_SUSPENSE_TIME_MS);
+  const staleTime = defaulted.staleTime;
+  defaulted.staleTime =
+    typeof staleTime === "function" ? (query) => clamp(staleTime(query)) : clamp(staleTime);
+  if (typeof defaulted.gcTime === "number") {
+    defaulted.gcTime = Math.max(defaulted.gcTime, MIN_SUSPENSE_TIME_MS);
+  }
+
+  return defaulted;
+}
+
+/**
+ * Whether a suspense-mode result must leave the render path:
+ * - `"suspend"` — first load still pending, throw the fetch promise
+ * - `"error"`   — load failed and there is no data to show (or `throwOnError` asks for it),
+ *   throw to the error boundary. Never right after a QueryErrorResetBoundary reset.
+ */
+export function getSuspenseAction(
+  result: Pick<
+    QueryObserverResult<unknown, Error>,
+    "isPending" | "isError" | "isFetching" | "data" | "error"
+  >,
+  throwOnError: boolean | ((error: Error) => boolean) | undefined,
+  errorResetBoundary: QueryErrorResetBoundaryValue
+): "suspend" | "error" | null {
+  if (result.isPending) return "suspend";
+  if (!result.isError || result.isFetching || errorResetBoundary.isReset()) return null;
+  if (result.data === undefined) return "error";
+  const shouldThrow =
+    typeof throwOnError === "function" ? throwOnError(result.error as Error) : throwOnError;
+  return shouldThrow ? "error" : null;
+}
@@ -0,0 +1,3 @@
+export { useTable } from "./useTable";
+
+export type { UseTableOptions, TableStore } from "./useTable";
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from "vitest";
+import { act, render, renderHook, screen } from "@testing-library/react";
+import { observable } from "@legendapp/state";
+import { useSelector } from "@legendapp/state/react";
+import {
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  type ColumnDef,
+} from "@tanstack/table-core";
+import { useTable } from ".";
+
+type Person = { name: string; age: number };
+
+const people = (): Person[] => [
+  { name: "Carol", age: 35 },
+  { name: "Alice", age: 30 },
+  { name: "Bob", age: 25 },
+];
+
+const columns: ColumnDef<Person, unknown>[] = [
+  { accessorKey: "name", header: "Name" },
+  { accessorKey: "age", header: "Age" },
+];
+
+const names = (rows: { original: Person }[]) => rows.map((row) => row.original.name);
+
+describe("useTable", () => {
+  it("should derive rows from plain data", () => {
+    const { result } = renderHook(() =>
+      useTable({ data: people(), columns, getCoreRowModel: getCoreRowModel() })
+    );
+
+    expect(names(result.current.rows.get())).toEqual(["Carol", "Alice", "Bob"]);
+    expect(result.current.table.peek().getAllColumns()).toHaveLength(2);
+  });
+
+  it("should rebuild the rows when Observable data changes, also in place", () => {
+    const data$ = observable(people());
+    const { result } = renderHook(() =>
+      useTable({ data: data$, columns, getCoreRowModel: getCoreRowModel() })
+    );
+
+    act(() => data$.push({ name: "Dave", age: 40 }));
+    expect(names(result.current.rows.get())).toEqual(["Carol", "Alice", "Bob", "Dave"]);
+
+    act(() => data$[0].name.set("Caroline"));
+    expect(result.current.rows.get()[0].getValue("name")).toBe("Caroline");
+  });
+
+  it("should write sorting from table APIs into the state Observable", () => {
+    const { result } = renderHook(() =>
+      useTable({
+        data: people(),
+        columns,
+        getCoreRowModel: getCoreRowModel(),
+        getSortedRowModel: getSortedRowModel(),
+      })
+    );
+
+    act(() => result.current.table.peek().getColumn("name")?.toggleSorting(false));
+
+    expect(result.current.state.sorting.get()).toEqual([{ id: "name", desc: false }]);
+    expect(names(result.current.rows.get())).toEqual(["Alice", "Bob", "Carol"]);
+  });
+
+  it("should only notify the slices a table update changed", () => {
+    const { result } = renderHook(() =>
+      useTable({
+        data: people(),
+        columns,
+        getCoreRowModel: getCoreRowModel(),
+        getSortedRowModel: getSortedRowModel(),
+      })
+    );
+    const onSorting = vi.fn();
+    const onPagination = vi.fn();
+    result.current.state.sorting.onChange(onSorting);
+    result.current.state.pagination.onChange(onPagination);
+
+    act(() => result.current.table.peek().getColumn("age")?.toggleSorting(true));
+
+    expect(onSorting).toHaveBeenCalledTimes(1);
+    expect(onPagination).not.toHaveBeenCalled();
+  });
+
+  it("should apply writes to the state Observable to the table", () => {
+    const { result } = renderHook(() =>
+      useTable({
+        data: people(),
+        columns,
+        getCoreRowModel: getCoreRowModel(),
+        getSortedRowModel: getSortedRowModel(),
+      })
+    );
+
+    act(() => result.current.state.sorting.set([{ id: "age", desc: false }]));
+
+    expect(result.current.table.peek().getState().sorting).toEqual([{ id: "age", desc: false }]);
+    expect(names(result.current.rows.get())).toEqual(["Bob", "Alice", "Carol"]);
+  });
+
+  it("should apply nested writes such as the page index", () => {
+    const { result } = renderHook(() =>
+      useTable({
+        data: people(),
+        columns,
+        getCoreRowModel: getCoreRowModel(),
+        getPaginationRowModel: getPaginationRowModel(),
+        initialState: { pagination: { pageIndex: 0, pageSize: 2 } },
+      })
+    );
+    expect(names(result.current.rows.get())).toEqual(["Carol", "Alice"]);
+
+    act(() => result.current.state.pagination.pageIndex.set(1));
+
+    expect(names(result.current.rows.get())).toEqual(["Bob"]);
+    expect(result.current.table.peek().getCanNextPage()).toBe(false);
+  });
+
+  it("should track row selection and column visibility", () => {
+    const { result } = renderHook(() =>
+      useTable({ data: people(), columns, getCoreRowModel: getCoreRowModel() })
+    );
+
+    act(() => result.current.rows.get()[1].toggleSelected(true));
+    act(() => result.current.state.columnVisibility.set({ age: false }));
+
+    expect(result.current.state.rowSelection.get()).toEqual({ "1": true });
+    expect(
+      result.current.table
+        .peek()
+        .getVisibleLeafColumns()
+        .map((c) => c.id)
+    ).toEqual(["name"]);
+  });
+
+  it("should re-render a component bound to a slice only when that slice changes", () => {
+    const renders = vi.fn();
+    const { result } = renderHook(() =>
+      useTable({
+        data: people(),
+        columns,
+        getCoreRowModel: getCoreRowModel(),
+        getSortedRowModel: getSortedRowModel(),
+      })
+    );
+    const table$ = result.current;
+
+    function SortIndicator() {
+      const sorting = useSelector(() => table$.state.sorting.get());
+      renders();
+      return <span>{sorting.map((sort) => sort.id).join(",") || "unsorted"}</span>;
+    }
+
+    render(<SortIndicator />);
+    const initialRenders = renders.mock.calls.length;
+
+    act(() => table$.state.pagination.pageSize.set(50));
+    expect(renders).toHaveBeenCalledTimes(initialRenders);
+
+    act(() => table$.table.peek().getColumn("name")?.toggleSorting());
+    expect(screen.getByText("name")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,170 @@
+"use client";
+import { batch, ObservableHint, type Observable, type OpaqueObject } from "@legendapp/state";
+import { useMount, useObservable, useObserve } from "@legendapp/state/react";
+import {
+  createTable,
+  functionalUpdate,
+  type ColumnDef,
+  type Row,
+  type RowData,
+  type Table,
+  type TableOptions,
+  type TableOptionsResolved,
+  type TableState,
+  type Updater,
+} from "@tanstack/table-core";
+import { useMemo, useRef } from "react";
+import { get, type MaybeObservable } from "@usels/core";
+import { clonePlainData } from "../../shared/utils";
+
+export interface UseTableOptions<TData extends RowData> extends Omit<
+  TableOptions<TData>,
+  "data" | "columns" | "state" | "onStateChange" | "renderFallbackValue"
+> {
+  /**
+   * Row data. An Observable is tracked deeply: replacing it or editing a row in place
+   * rebuilds the row model.
+   */
+  data: MaybeObservable<TData[]>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- column value types differ per column, as in table-core
+  columns: MaybeObservable<ColumnDef<TData, any>[]>;
+  /** Value rendered for cells whose accessor returns `undefined`. Defaults to `null`. */
+  renderFallbackValue?: unknown;
+}
+
+export interface TableStore<TData extends RowData> {
+  /**
+   * The whole table state — sorting, filters, pagination, row selection, column
+   * visibility and so on. Table APIs write the changed slices only, and writes to any field
+   * (e.g. `table$.state.pagination.pageIndex.set(2)`) are applied to the table.
+   */
+  state: TableState;
+  /** Rows of the final row model (`table.getRowModel().rows`), recomputed when data or state change. */
+  rows: OpaqueObject<Row<TData>[]>;
+  /** The table-core instance, for header groups, columns and row APIs. */
+  table: OpaqueObject<Table<TData>>;
+}
+
+/**
+ * Custom hook that bridges `@tanstack/table-core` with Legend-State. The table state lives in
+ * `table$.state`, one Observable that components bind to with fine-grained updates: sorting
+ * a column notifies `table$.state.sorting` (and the rows), not the pagination or selection.
+ *
+ * `data` and `columns` may be Observables. The row model is exposed as `table$.rows`, derived
+ * from the data and the state; use `table$.table` for everything else table-core offers.
+ *
+ * @example
+ * ```tsx
+ * const table$ = useTable({
+ *   data: todos$,
+ *   columns,
+ *   getCoreRowModel: getCoreRowModel(),
+ *   getSortedRowModel: getSortedRowModel(),
+ * })
+ *
+ * const sorting = use$(table$.state.sorting)
+ * const rows = use$(table$.rows)
+ * table$.table.peek().getColumn('title')?.toggleSorting()
+ * ```
+ */
+export function useTable<TData extends RowData>(
+  options: UseTableOptions<TData>
+): Observable<TableStore<TData>> {
+  const { data, columns, ...rest } = options;
+
+  // table: created once. state: the plain state table-core reads — table$.state holds a copy,
+  // so Legend-State's in-place writes never reach the slices table-core memoizes on.
+  // syncing: set while table-core updates are written into table$.state
+  const bridgeRef = useRef<{ table: Table<TData>; state: TableState; syncing: boolean } | null>(
+    null
+  );
+  if (bridgeRef.current === null) {
+    const table = createTable<TData>({
+      state: {},
+      onStateChange: () => {},
+      renderFallbackValue: null,
+      ...rest,
+      data: [],
+      columns: [],
+    } as TableOptionsResolved<TData>);
+    bridgeRef.current = { table, state: table.initialState, syncing: false };
+  }
+  const bridge = bridgeRef.current;
+  const { table } = bridge;
+
+  // Bumped after table-core's options changed; the row model recomputes from it, so it never
+  // reads the table before the new data or state reached it
+  const version$ = useObservable(0);
+
+  // rows is a computed child; Legend-State's input typing does not model opaque class instances
+  const table$ = useObservable<TableStore<TData>>({
+    state: clonePlainData(bridge.state),
+    rows: () => {
+      version$.get();
+      return ObservableHint.opaque(table.getRowModel().rows);
+    },
+    table: ObservableHint.opaque(table),
+  } as unknown as TableStore<TData>);
+
+  const applyState = (state: TableState) => {
+    bridge.state = state;
+    table.setOptions((prev) => ({ ...prev, state }));
+  };
+
+  // Table APIs (toggleSorting, setPageIndex, ...): only the slices the updater replaced are
+  // written, so observers of the other slices are not notified
+  const onStateChange = (updater: Updater<TableState>) => {
+    const prev = bridge.state;
+    const next = functionalUpdate(updater, prev);
+    applyState(next);
+    const state$ = table$.state as unknown as Record<string, Observable<unknown>>;
+    bridge.syncing = true;
+    batch(() => {
+      for (const key of Object.keys(next) as (keyof TableState)[]) {
+        if (next[key] !== prev[key]) state$[key].set(clonePlainData(next[key]));
+      }
+      version$.set((version) => version + 1);
+    });
+    bridge.syncing = false;
+  };
+
+  // Plain options are taken from every render, like table-core's own framework adapters
+  table.setOptions((prev) => ({
+    ...prev,
+    ...rest,
+    renderFallbackValue: rest.renderFallbackValue ?? null,
+    state: bridge.state,
+    onStateChange,
+  }));
+
+  // Data and columns: re-read when an Observable source changes or another value is passed.
+  // A fresh array makes table-core rebuild the row model after in-place edits too.
+  const sourceKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [data, columns]
+  );
+  useObserve(() => {
+    const source = { data: [...get(data)], columns: get(columns) };
+    table.setOptions((prev) => ({ ...prev, ...source }));
+    version$.set((version) => version + 1);
+  }, [sourceKey]);
+
+  // Writes to table$.state: the changed slices are copied for table-core
+  useMount(() =>
+    table$.state.onChange(({ changes }) => {
+      if (bridge.syncing) return;
+      const state$ = table$.state as unknown as Record<string, Observable<unknown>>;
+      let next = { ...bridge.state };
+      for (const { path } of changes) {
+        const key = path[0] as keyof TableState | undefined;
+        if (key === undefined) next = clonePlainData(table$.state.peek());
+        else next = { ...next, [key]: clonePlainData(state$[key].peek()) };
+      }
+      applyState(next as TableState);
+      version$.set((version) => version + 1);
+    })
+  );
+
+  return table$;
+}
@@ -0,0 +1,3 @@
+export { useVirtualizer } from "./useVirtualizer";
+
+export type { UseVirtualizerOptions, UseVirtualizerReturn } from "./useVirtualizer";
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { observable, ObservableHint, type OpaqueObject } from "@legendapp/state";
+import { useVirtualizer } from ".";
+
+/** A 100px tall scroll container; jsdom does no layout, so sizes are stubbed */
+function createContainer() {
+  const el = document.createElement("div");
+  Object.defineProperty(el, "offsetHeight", { configurable: true, value: 100 });
+  Object.defineProperty(el, "offsetWidth", { configurable: true, value: 300 });
+  Object.defineProperty(el, "clientHeight", { configurable: true, value: 100 });
+  Object.defineProperty(el, "scrollHeight", { configurable: true, value: 20_000 });
+  el.scrollTo = vi.fn((options?: ScrollToOptions | number) => {
+    if (typeof options === "object" && options.top !== undefined) el.scrollTop = options.top;
+  }) as typeof el.scrollTo;
+  document.body.appendChild(el);
+  return el;
+}
+
+const indexes = (items: { index: number }[]) => items.map((item) => item.index);
+
+describe("useVirtualizer", () => {
+  it("should expose the visible items and the total size", () => {
+    const el = createContainer();
+    const { result } = renderHook(() =>
+      useVirtualizer(observable(ObservableHint.opaque(el)), {
+        count: 1000,
+        estimateSize: () => 20,
+      })
+    );
+
+    // 5 visible rows plus one overscan row
+    expect(indexes(result.current.virtualItems$.get())).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.current.totalSize$.get()).toBe(20_000);
+  });
+
+  it("should move the range when the container scrolls", () => {
+    const el = createContainer();
+    const { result } = renderHook(() =>
+      useVirtualizer(observable(ObservableHint.opaque(el)), {
+        count: 1000,
+        estimateSize: () => 20,
+      })
+    );
+
+    act(() => {
+      el.scrollTop = 400;
+      el.dispatchEvent(new Event("scroll"));
+    });
+
+    expect(indexes(result.current.virtualItems$.get())).toEqual([19, 20, 21, 22, 23, 24, 25]);
+    expect(result.current.isScrolling$.get()).toBe(true);
+  });
+
+  it("should follow an Observable count without re-rendering", () => {
+    const el = createContainer();
+    const count$ = observable(2);
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders++;
+      return useVirtualizer(observable(ObservableHint.opaque(el)), {
+        count: count$,
+        estimateSize: () => 20,
+      });
+    });
+    const initialRenders = renders;
+    expect(indexes(result.current.virtualItems$.get())).toEqual([0, 1]);
+
+    act(() => count$.set(50));
+
+    expect(indexes(result.current.virtualItems$.get())).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(result.current.totalSize$.get()).toBe(1000);
+    expect(renders).toBe(initialRenders);
+  });
+
+  it("should attach when an Observable container is set later", () => {
+    const el = createContainer();
+    const el$ = observable<OpaqueObject<Element> | null>(null);
+    const { result } = renderHook(() =>
+      useVirtualizer(el$, { count: 1000, estimateSize: () => 20 })
+    );
+    expect(result.current.virtualItems$.get()).toEqual([]);
+
+    act(() => el$.set(ObservableHint.opaque(el)));
+
+    expect(indexes(result.current.virtualItems$.get())).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("should scroll the container to an index", () => {
+    const el = createContainer();
+    const { result } = renderHook(() =>
+      useVirtualizer(observable(ObservableHint.opaque(el)), {
+        count: 1000,
+        estimateSize: () => 20,
+      })
+    );
+
+    act(() => result.current.scrollToIndex(100, { align: "start" }));
+
+    expect(el.scrollTo).toHaveBeenLastCalledWith(expect.objectContaining({ top: 2000 }));
+  });
+
+  it("should apply plain options passed on re-render", () => {
+    const el = createContainer();
+    const el$ = observable(ObservableHint.opaque(el));
+    const { result, rerender } = renderHook(
+      ({ overscan }) => useVirtualizer(el$, { count: 1000, estimateSize: () => 20, overscan }),
+      { initialProps: { overscan: 1 } }
+    );
+
+    rerender({ overscan: 3 });
+    act(() => {
+      el.scrollTop = 400;
+      el.dispatchEvent(new Event("scroll"));
+    });
+
+    expect(indexes(result.current.virtualItems$.get())).toEqual([
+      17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27,
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+"use client";
+import { batch, type Observable } from "@legendapp/state";
+import { useMount, useObservable, useObserve, useObserveEffect } from "@legendapp/state/react";
+import {
+  elementScroll,
+  observeWindowRect,
+  Virtualizer,
+  windowScroll,
+  type Rect,
+  type ScrollToOptions,
+  type VirtualItem,
+  type VirtualizerOptions,
+} from "@tanstack/virtual-core";
+import { useLayoutEffect, useMemo, useRef } from "react";
+import {
+  get,
+  getElement,
+  peek,
+  peekElement,
+  useResizeObserver,
+  useScroll,
+  type MaybeElement,
+  type MaybeObservable,
+} from "@usels/core";
+
+type ScrollElement = Element | Window;
+
+export interface UseVirtualizerOptions<TItemElement extends Element = Element> extends Omit<
+  VirtualizerOptions<ScrollElement, TItemElement>,
+  "count" | "getScrollElement" | "scrollToFn" | "observeElementRect" | "observeElementOffset"
+> {
+  /** Number of items. An Observable is tracked, so a changed count needs no re-render to apply. */
+  count: MaybeObservable<number>;
+}
+
+export interface UseVirtualizerReturn<TItemElement extends Element = Element> {
+  /** Items to render, updated when the visible range moves or items are measured */
+  virtualItems$: Observable<VirtualItem[]>;
+  /** Size of all items in px — the size of the inner element holding them */
+  totalSize$: Observable<number>;
+  /** `true` while the scroll container is scrolling */
+  isScrolling$: Observable<boolean>;
+  scrollToIndex: (index: number, options?: ScrollToOptions) => void;
+  scrollToOffset: (offset: number, options?: ScrollToOptions) => void;
+  /** Ref callback measuring a rendered item; the element needs a `data-index` attribute */
+  measureElement: (node: TItemElement | null) => void;
+  /** The virtual-core instance, for everything else it offers */
+  virtualizer: Virtualizer<ScrollElement, TItemElement>;
+}
+
+type RectListener = (rect: Rect) => void;
+type OffsetListener = (offset: number, isScrolling: boolean) => void;
+
+const isWindow = (el: unknown): el is Window => typeof window !== "undefined" && el === window;
+
+const isDocument = (el: unknown): el is Document =>
+  typeof Document !== "undefined" && el instanceof Document;
+
+/** The document scrolls through its window, which is what virtual-core expects */
+function toScrollElement(el: HTMLElement | Document | Window | null): ScrollElement | null {
+  return isDocument(el) ? el.defaultView : el;
+}
+
+function getRect(el: HTMLElement): Rect {
+  return { width: Math.round(el.offsetWidth), height: Math.round(el.offsetHeight) };
+}
+
+function readOffset<TItemElement extends Element>(
+  instance: Virtualizer<ScrollElement, TItemElement>
+): number {
+  const el = instance.scrollElement;
+  const { horizontal, isRtl } = instance.options;
+  if (!el) return 0;
+  if (isWindow(el)) return horizontal ? el.scrollX : el.scrollY;
+  return horizontal ? el.scrollLeft * (isRtl ? -1 : 1) : el.scrollTop;
+}
+
+/**
+ * Custom hook that bridges `@tanstack/virtual-core` with Legend-State. Renders only the items
+ * visible in a scroll container — `virtualItems$` holds them and `totalSize$` the size of the
+ * whole list, both updated as the container scrolls or items are measured.
+ *
+ * The container is a `MaybeElement` (`Ref$`, Observable element, `window` or `document`).
+ * Its size and scroll offset come from core's `useResizeObserver` and `useScroll`.
+ *
+ * @example
+ * ```tsx
+ * const parent$ = useRef$<HTMLDivElement>()
+ * const count$ = useObservable(() => rows$.get().length)
+ * const { virtualItems$, totalSize$ } = useVirtualizer(parent$, {
+ *   count: count$,
+ *   estimateSize: () => 35,
+ * })
+ * const totalSize = useSelector(totalSize$)
+ * const items = useSelector(virtualItems$)
+ *
+ * return (
+ *   <div ref={parent$} style={{ height: 400, overflow: 'auto' }}>
+ *     <div style={{ height: totalSize, position: 'relative' }}>
+ *       {items.map((item) => <Row key={item.key} item={item} />)}
+ *     </div>
+ *   </div>
+ * )
+ * ```
+ */
+export function useVirtualizer<TItemElement extends Element = Element>(
+  element: MaybeElement,
+  options: UseVirtualizerOptions<TItemElement>
+): UseVirtualizerReturn<TItemElement> {
+  const { count, ...rest } = options;
+
+  const virtualItems$ = useObservable<VirtualItem[]>([]);
+  const totalSize$ = useObservable(0);
+
+  // What virtual-core registers through observeElementRect / observeElementOffset; fed by
+  // useResizeObserver and useScroll instead of listeners of its own
+  const listenersRef = useRef<{ rect: RectListener | null; offset: OffsetListener | null }>({
+    rect: null,
+    offset: null,
+  });
+  const listeners = listenersRef.current;
+
+  const sync = (instance: Virtualizer<ScrollElement, TItemElement>) =>
+    batch(() => {
+      virtualItems$.set(instance.getVirtualItems());
+      totalSize$.set(instance.getTotalSize());
+    });
+
+  const resolveOptions = (itemCount: number): VirtualizerOptions<ScrollElement, TItemElement> => ({
+    ...rest,
+    count: itemCount,
+    getScrollElement: () => toScrollElement(peekElement(element)),
+    scrollToFn: (offset, scrollOptions, instance) =>
+      isWindow(instance.scrollElement)
+        ? windowScroll(offset, scrollOptions, instance as unknown as Virtualizer<Window, Element>)
+        : elementScroll(offset, scrollOptions, instance as Virtualizer<Element, TItemElement>),
+    observeElementRect: (instance, cb) => {
+      const el = instance.scrollElement;
+      if (isWindow(el)) {
+        return observeWindowRect(instance as unknown as Virtualizer<Window, Element>, cb);
+      }
+      if (!el) return;
+      listeners.rect = cb;
+      cb(getRect(el as HTMLElement));
+      return () => {
+        listeners.rect = null;
+      };
+    },
+    observeElementOffset: (instance, cb) => {
+      if (!instance.scrollElement) return;
+      listeners.offset = cb;
+      cb(readOffset(instance), false);
+      return () => {
+        listeners.offset = null;
+      };
+    },
+    onChange: (instance, isSync) => {
+      sync(instance);
+      rest.onChange?.(instance, isSync);
+    },
+  });
+
+  const virtualizerRef = useRef<Virtualizer<ScrollElement, TItemElement> | null>(null);
+  if (virtualizerRef.current === null) {
+    virtualizerRef.current = new Virtualizer(resolveOptions(peek(count)));
+  }
+  const virtualizer = virtualizerRef.current;
+
+  // Plain options are taken from every render, like virtual-core's own framework adapters
+  virtualizer.setOptions(resolveOptions(peek(count)));
+
+  // Count: re-read when an Observable count changes or another value is passed
+  const countKey = useMemo(
+    () => Symbol(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [count]
+  );
+  useObserve(() => {
+    virtualizer.setOptions({ ...virtualizer.options, count: get(count) });
+    sync(virtualizer);
+  }, [countKey]);
+
+  const { isScrolling$, x$, y$ } = useScroll(element, {
+    idle: rest.isScrollingResetDelay ?? 150,
+  });
+
+  // Scroll offset: every scroll event is reported as scrolling, the idle flag ends the scroll
+  useObserve(() => {
+    x$.get();
+    y$.get();
+    listeners.offset?.(readOffset(virtualizer), true);
+  });
+  useObserve(isScrolling$, ({ value }) => {
+    if (!value) listeners.offset?.(readOffset(virtualizer), false);
+  });
+
+  // Container size; a window is measured by virtual-core from its resize event instead
+  useResizeObserver(
+    isWindow(element) || isDocument(element) ? null : element,
+    (entries) => {
+      const box = entries[0]?.borderBoxSize?.[0];
+      const el = virtualizer.scrollElement;
+      if (!el || isWindow(el)) return;
+      listeners.rect?.(
+        box
+          ? { width: Math.round(box.inlineSize), height: Math.round(box.blockSize) }
+          : getRect(el as HTMLElement)
+      );
+    },
+    { box: "border-box" }
+  );
+
+  // Attach to the container once mounted and whenever an Observable container changes
+  useObserveEffect(() => {
+    getElement(element);
+    virtualizer._willUpdate();
+    sync(virtualizer);
+  });
+  // Options such as `enabled` may detach or re-attach the container on any render
+  useLayoutEffect(() => {
+    virtualizer._willUpdate();
+  });
+  useMount(() => virtualizer._didMount());
+
+  return {
+    virtualItems$,
+    totalSize$,
+    isScrolling$,
+    scrollToIndex: virtualizer.scrollToIndex,
+    scrollToOffset: virtualizer.scrollToOffset,
+    measureElement: virtualizer.measureElement,
+    virtualizer,
+  };
+}
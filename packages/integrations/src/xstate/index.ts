@@ -0,0 +1,3 @@
+export { useActor$, useMachine$ } from "./useActor$";
+
+export type { ActorState, UseActorReturn } from "./useActor$";
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { observe } from "@legendapp/state";
+import { assign, createMachine, setup } from "xstate";
+import { useActor$, useMachine$ } from ".";
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const checkoutMachine = setup({
+  types: {
+    context: {} as { cart: { items: Item[] }; coupon: string },
+    events: {} as
+      | { type: "ADD"; item: Item }
+      | { type: "COUPON"; code: string }
+      | { type: "CHECKOUT" }
+      | { type: "PAY" }
+      | { type: "FAIL" },
+    input: {} as { items: Item[] } | undefined,
+  },
+}).createMachine({
+  id: "checkout",
+  context: ({ input }) => ({ cart: { items: input?.items ?? [] }, coupon: "" }),
+  initial: "cart",
+  states: {
+    cart: {
+      on: {
+        ADD: {
+          actions: assign({
+            cart: ({ context, event }) => ({ items: [...context.cart.items, event.item] }),
+          }),
+        },
+        COUPON: { actions: assign({ coupon: ({ event }) => event.code }) },
+        CHECKOUT: "payment",
+      },
+    },
+    payment: {
+      initial: "card",
+      states: { card: {} },
+      on: {
+        PAY: "paid",
+        FAIL: {
+          actions: () => {
+            throw new Error("declined");
+          },
+        },
+      },
+    },
+    paid: { type: "final" },
+  },
+});
+
+describe("useActor$", () => {
+  it("should mirror the initial snapshot and start the actor on mount", () => {
+    const { result } = renderHook(() =>
+      useActor$(checkoutMachine, { input: { items: [{ id: 1, name: "Book" }] } })
+    );
+
+    expect(result.current.snapshot$.value.get()).toBe("cart");
+    expect(result.current.snapshot$.context.cart.items.get()).toEqual([{ id: 1, name: "Book" }]);
+    expect(result.current.snapshot$.status.get()).toBe("active");
+    expect(result.current.actorRef.getSnapshot().status).toBe("active");
+  });
+
+  it("should update the snapshot when events are sent", () => {
+    const { result } = renderHook(() => useActor$(checkoutMachine));
+
+    act(() => result.current.send({ type: "ADD", item: { id: 1, name: "Book" } }));
+    expect(result.current.snapshot$.context.cart.items.get()).toEqual([{ id: 1, name: "Book" }]);
+
+    act(() => result.current.send({ type: "CHECKOUT" }));
+    expect(result.current.snapshot$.value.get()).toEqual({ payment: "card" });
+
+    act(() => result.current.send({ type: "PAY" }));
+    expect(result.current.snapshot$.status.get()).toBe("done");
+  });
+
+  it("should only notify observers of the changed context paths", () => {
+    const { result } = renderHook(() =>
+      useActor$(checkoutMachine, { input: { items: [{ id: 1, name: "Book" }] } })
+    );
+    const onItems = vi.fn();
+    const dispose = observe(() => onItems(result.current.snapshot$.context.cart.items.get()));
+    onItems.mockClear();
+
+    act(() => result.current.send({ type: "COUPON", code: "SAVE10" }));
+    expect(result.current.snapshot$.context.coupon.get()).toBe("SAVE10");
+    expect(onItems).not.toHaveBeenCalled();
+
+    act(() => result.current.send({ type: "ADD", item: { id: 2, name: "Pen" } }));
+    expect(onItems).toHaveBeenCalledTimes(1);
+    dispose();
+  });
+
+  it("should not mutate the actor's context", () => {
+    const { result } = renderHook(() => useActor$(checkoutMachine));
+
+    act(() => result.current.send({ type: "ADD", item: { id: 1, name: "Book" } }));
+    result.current.snapshot$.context.cart.items[0].name.set("Changed");
+
+    expect(result.current.actorRef.getSnapshot().context.cart.items[0].name).toBe("Book");
+  });
+
+  it("should expose matches$ for state values and their children", () => {
+    const { result } = renderHook(() => useActor$(checkoutMachine));
+    const inPayment$ = result.current.matches$("payment");
+
+    expect(inPayment$.get()).toBe(false);
+
+    act(() => result.current.send({ type: "CHECKOUT" }));
+    expect(inPayment$.get()).toBe(true);
+    expect(result.current.matches$({ payment: "card" }).get()).toBe(true);
+    expect(result.current.matches$("payment")).toBe(inPayment$);
+  });
+
+  it("should expose errors of the actor", () => {
+    const { result } = renderHook(() => useActor$(checkoutMachine));
+
+    act(() => result.current.send({ type: "CHECKOUT" }));
+    act(() => result.current.send({ type: "FAIL" }));
+
+    expect(result.current.snapshot$.status.get()).toBe("error");
+    expect((result.current.snapshot$.error.get() as Error).message).toBe("declined");
+  });
+
+  it("should stop the actor on unmount", async () => {
+    const { result, unmount } = renderHook(() => useMachine$(checkoutMachine));
+    const actor = result.current.actorRef;
+
+    unmount();
+
+    await waitFor(() => expect(actor.getSnapshot().status).toBe("stopped"));
+  });
+
+  it("should accept machines without setup", () => {
+    const toggle = createMachine({
+      initial: "off",
+      states: { off: { on: { TOGGLE: "on" } }, on: { on: { TOGGLE: "off" } } },
+    });
+    const { result } = renderHook(() => useMachine$(toggle));
+
+    act(() => result.current.send({ type: "TOGGLE" }));
+
+    expect(result.current.snapshot$.value.get()).toBe("on");
+  });
+});
@@ -0,0 +1,119 @@
+"use client";
+import { batch, observable, type Observable } from "@legendapp/state";
+import { useMount } from "@legendapp/state/react";
+import {
+  createActor,
+  matchesState,
+  type Actor,
+  type ActorOptions,
+  type AnyMachineSnapshot,
+  type AnyStateMachine,
+  type ContextFrom,
+  type EventFromLogic,
+  type SnapshotFrom,
+  type StateValue,
+  type StateValueFrom,
+} from "xstate";
+import { useMemo } from "react";
+import { clonePlainData, reconcileData } from "../../shared/utils";
+
+export interface ActorState<TMachine extends AnyStateMachine> {
+  /** Current state value, e.g. `"idle"` or `{ checkout: "payment" }` */
+  value: StateValueFrom<TMachine>;
+  context: ContextFrom<TMachine>;
+  /** `"active"` while running; `"done"` once a final state is reached; `"error"` if it failed */
+  status: SnapshotFrom<TMachine>["status"];
+  /** Error the actor failed with; `undefined` unless `status` is `"error"` */
+  error: unknown;
+}
+
+export interface UseActorReturn<TMachine extends AnyStateMachine> {
+  /** Value, context and status of the actor's snapshot, updated per changed path */
+  snapshot$: Observable<ActorState<TMachine>>;
+  /** Sends an event to the actor */
+  send: (event: EventFromLogic<TMachine>) => void;
+  /** Observable that is `true` while the actor is in the given state (or one of its children) */
+  matches$: (stateValue: StateValueFrom<TMachine>) => Observable<boolean>;
+  /** The underlying actor, e.g. to pass to child components or spawn from */
+  actorRef: Actor<TMachine>;
+}
+
+const toState = (snapshot: AnyMachineSnapshot): ActorState<AnyStateMachine> => ({
+  value: snapshot.value,
+  context: snapshot.context,
+  status: snapshot.status,
+  error: snapshot.error,
+});
+
+/**
+ * Custom hook that creates an XState actor from a state machine, starts it on mount and stops it
+ * on unmount. Its snapshot's `value`, `context` and `status` are mirrored into an Observable:
+ * every snapshot is diffed into the previous one, so an observer of `context.cart.items` is only
+ * notified when the items change.
+ *
+ * The machine and options are read when the actor is created, on the first render.
+ *
+ * @example
+ * ```tsx
+ * const { snapshot$, send, matches$ } = useActor$(checkoutMachine)
+ *
+ * const itemCount = useSelector(() => snapshot$.context.cart.items.get().length)
+ * <Show if={matches$("payment")}>{() => <PaymentForm />}</Show>
+ * ```
+ */
+export function useActor$<TMachine extends AnyStateMachine>(
+  machine: TMachine,
+  options?: ActorOptions<TMachine>
+): UseActorReturn<TMachine> {
+  // Created once: later changes of `machine` or `options` are ignored
+  const { actor, snapshot$, matchers } = useMemo(
+    () => {
+      const actor = createActor(machine, options);
+      return {
+        actor,
+        // cloned: diffing mutates the stored value in place, the actor's context must stay intact
+        snapshot$: observable(clonePlainData(toState(actor.getSnapshot()))),
+        // one Observable per state value, so `matches$` can be called while rendering
+        matchers: new Map<string, Observable<boolean>>(),
+      };
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  useMount(() => {
+    const update = () =>
+      batch(() =>
+        reconcileData(snapshot$ as unknown as Observable<unknown>, toState(actor.getSnapshot()))
+      );
+    // An error observer also keeps XState from rethrowing the error as unhandled
+    const subscription = actor.subscribe({ next: update, error: update });
+    actor.start();
+    return () => {
+      subscription.unsubscribe();
+      actor.stop();
+    };
+  });
+
+  const matches$ = (stateValue: StateValueFrom<TMachine>) => {
+    const key = JSON.stringify(stateValue);
+    let match$ = matchers.get(key);
+    if (!match$) {
+      match$ = observable(() =>
+        matchesState(stateValue as StateValue, snapshot$.value.get() as StateValue)
+      );
+      matchers.set(key, match$);
+    }
+    return match$;
+  };
+
+  return {
+    snapshot$: snapshot$ as unknown as Observable<ActorState<TMachine>>,
+    send: (event) => actor.send(event),
+    matches$,
+    actorRef: actor,
+  };
+}
+
+/** Alias of `useActor$` */
+export const useMachine$ = useActor$;
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from "vitest";
+import { observe } from "@legendapp/state";
+import * as Y from "yjs";
+import { fromYjs } from ".";
+
+interface Card {
+  title: string;
+  done: boolean;
+}
+
+interface Board {
+  name: string;
+  cards: Card[];
+  meta?: { owner: string };
+}
+
+/** Two in-memory documents exchanging their updates, like two connected clients */
+const createPeers = () => {
+  const doc1 = new Y.Doc();
+  const doc2 = new Y.Doc();
+  doc1.on("update", (update: Uint8Array) => Y.applyUpdate(doc2, update, "remote"));
+  doc2.on("update", (update: Uint8Array) => Y.applyUpdate(doc1, update, "remote"));
+  return { doc1, doc2 };
+};
+
+const seed = (map: Y.Map<unknown>) => {
+  map.doc!.transact(() => {
+    map.set("name", "Sprint");
+    map.set(
+      "cards",
+      Y.Array.from([
+        new Y.Map<unknown>([
+          ["title", "Design"],
+          ["done", false],
+        ]),
+        new Y.Map<unknown>([
+          ["title", "Build"],
+          ["done", false],
+        ]),
+      ])
+    );
+  });
+};
+
+describe("fromYjs", () => {
+  it("should start with the content of the shared type", () => {
+    const doc = new Y.Doc();
+    seed(doc.getMap("board"));
+
+    const board$ = fromYjs<Board>(doc.getMap("board"));
+
+    expect(board$.get()).toEqual({
+      name: "Sprint",
+      cards: [
+        { title: "Design", done: false },
+        { title: "Build", done: false },
+      ],
+    });
+  });
+
+  it("should write local changes to the shared type", () => {
+    const doc = new Y.Doc();
+    const map = doc.getMap("board");
+    seed(map);
+    const board$ = fromYjs<Board>(map);
+    const cards = map.get("cards") as Y.Array<Y.Map<unknown>>;
+    const firstCard = cards.get(0);
+
+    board$.cards[0].done.set(true);
+    board$.meta.set({ owner: "ada" });
+
+    expect(map.toJSON()).toEqual({
+      name: "Sprint",
+      cards: [
+        { title: "Design", done: true },
+        { title: "Build", done: false },
+      ],
+      meta: { owner: "ada" },
+    });
+    // edited in place, and new objects stored as shared types
+    expect(cards.get(0)).toBe(firstCard);
+    expect(map.get("meta")).toBeInstanceOf(Y.Map);
+  });
+
+  it("should make one transaction per write", () => {
+    const doc = new Y.Doc();
+    seed(doc.getMap("board"));
+    const board$ = fromYjs<Board>(doc.getMap("board"));
+    const onUpdate = vi.fn();
+    doc.on("update", onUpdate);
+
+    board$.set({ name: "Release", cards: [{ title: "Ship", done: false }] });
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(doc.getMap("board").toJSON()).toEqual({
+      name: "Release",
+      cards: [{ title: "Ship", done: false }],
+    });
+  });
+
+  it("should sync two documents", () => {
+    const { doc1, doc2 } = createPeers();
+    seed(doc1.getMap("board"));
+    const board1$ = fromYjs<Board>(doc1.getMap("board"));
+    const board2$ = fromYjs<Board>(doc2.getMap("board"));
+
+    board1$.cards.push({ title: "Test", done: false });
+    board2$.name.set("Sprint 2");
+
+    expect(board2$.cards[2].title.get()).toBe("Test");
+    expect(board1$.name.get()).toBe("Sprint 2");
+    expect(doc1.getMap("board").toJSON()).toEqual(doc2.getMap("board").toJSON());
+  });
+
+  it("should not write Yjs updates back into the document", () => {
+    const { doc1, doc2 } = createPeers();
+    seed(doc1.getMap("board"));
+    const board1$ = fromYjs<Board>(doc1.getMap("board"));
+    fromYjs<Board>(doc2.getMap("board"));
+    const transact = vi.spyOn(doc2, "transact");
+
+    board1$.cards[1].title.set("Build it");
+
+    expect(doc2.getMap("board").toJSON()).toEqual(doc1.getMap("board").toJSON());
+    expect(transact).not.toHaveBeenCalled();
+  });
+
+  it("should only notify observers of remotely changed paths", () => {
+    const { doc1, doc2 } = createPeers();
+    seed(doc1.getMap("board"));
+    const board1$ = fromYjs<Board>(doc1.getMap("board"));
+    const board2$ = fromYjs<Board>(doc2.getMap("board"));
+    const onFirst = vi.fn();
+    const onSecond = vi.fn();
+    observe(() => onFirst(board2$.cards[0].title.get()));
+    observe(() => onSecond(board2$.cards[1].title.get()));
+    onFirst.mockClear();
+    onSecond.mockClear();
+
+    board1$.cards[1].title.set("Build it");
+
+    expect(onSecond).toHaveBeenCalledWith("Build it");
+    expect(onFirst).not.toHaveBeenCalled();
+  });
+
+  it("should merge concurrent edits of different entries", () => {
+    const doc1 = new Y.Doc();
+    const doc2 = new Y.Doc();
+    seed(doc1.getMap("board"));
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1));
+    const board1$ = fromYjs<Board>(doc1.getMap("board"));
+    const board2$ = fromYjs<Board>(doc2.getMap("board"));
+
+    // offline edits of both peers, exchanged afterwards
+    board1$.cards[0].done.set(true);
+    board2$.cards[1].title.set("Build it");
+    Y.applyUpdate(doc2, Y.encodeStateAsUpdate(doc1, Y.encodeStateVector(doc2)));
+    Y.applyUpdate(doc1, Y.encodeStateAsUpdate(doc2, Y.encodeStateVector(doc1)));
+
+    const expected = [
+      { title: "Design", done: true },
+      { title: "Build it", done: false },
+    ];
+    expect(board1$.cards.get()).toEqual(expected);
+    expect(board2$.cards.get()).toEqual(expected);
+  });
+
+  it("should bind a Y.Array", () => {
+    const doc = new Y.Doc();
+    const list = doc.getArray<string>("tags");
+    list.insert(0, ["a", "b", "c"]);
+    const tags$ = fromYjs<string[]>(list);
+
+    tags$.splice(1, 1);
+    expect(list.toArray()).toEqual(["a", "c"]);
+
+    list.insert(0, ["z"]);
+    expect(tags$.get()).toEqual(["z", "a", "c"]);
+  });
+
+  it("should undo and redo local writes with Y.UndoManager", () => {
+    const doc = new Y.Doc();
+    const map = doc.getMap("board");
+    seed(map);
+    const board$ = fromYjs<Board>(map);
+    const undoManager = new Y.UndoManager(map, { captureTimeout: 0 });
+
+    board$.cards[0].title.set("Redesign");
+    board$.name.set("Sprint 2");
+
+    undoManager.undo();
+    expect(board$.name.get()).toBe("Sprint");
+    expect(board$.cards[0].title.get()).toBe("Redesign");
+
+    undoManager.undo();
+    expect(board$.cards[0].title.get()).toBe("Design");
+
+    undoManager.redo();
+    expect(board$.cards[0].title.get()).toBe("Redesign");
+  });
+
+  it("should use the given transaction origin", () => {
+    const doc = new Y.Doc();
+    const map = doc.getMap("board");
+    seed(map);
+    const origin = { name: "editor" };
+    const board$ = fromYjs<Board>(map, { origin });
+    const origins: unknown[] = [];
+    doc.on("afterTransaction", (transaction: Y.Transaction) => origins.push(transaction.origin));
+
+    board$.name.set("Sprint 2");
+
+    expect(origins).toEqual([origin]);
+  });
+});
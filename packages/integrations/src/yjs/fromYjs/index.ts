@@ -0,0 +1,156 @@
+import { batch, observable, type Observable } from "@legendapp/state";
+import * as Y from "yjs";
+import { isEqualData, isPlainObject, reconcileData } from "../../shared/utils";
+
+type YContainer = Y.Map<unknown> | Y.Array<unknown>;
+
+export interface FromYjsOptions {
+  /**
+   * Origin of the transactions made for writes to the Observable. A default `Y.UndoManager`
+   * tracks the default `null` origin; pass another origin with its `trackedOrigins` to scope it.
+   */
+  origin?: unknown;
+}
+
+/** Plain values become shared types, so their entries can be edited concurrently */
+const toY = (value: unknown): unknown => {
+  if (Array.isArray(value)) return Y.Array.from(value.map(toY) as never[]);
+  if (isPlainObject(value)) {
+    return new Y.Map(Object.entries(value).map(([key, item]) => [key, toY(item)]));
+  }
+  return value;
+};
+
+const toJSON = (value: unknown): unknown =>
+  value instanceof Y.AbstractType ? value.toJSON() : value;
+
+/** Whether a value can be written into the shared type in place */
+const isSameKind = (type: unknown, value: unknown): type is YContainer =>
+  (type instanceof Y.Map && isPlainObject(value)) ||
+  (type instanceof Y.Array && Array.isArray(value));
+
+/**
+ * Writes the differences between a shared type and a plain value into the shared type:
+ * - map keys are set or deleted one by one
+ * - arrays keep their unchanged head and tail; the middle is edited item by item if its length
+ *   did not change, else deleted and inserted
+ * - nested maps and arrays are edited in place, so concurrent edits of other entries are kept
+ */
+function writeY(target: YContainer, value: unknown): void {
+  if (target instanceof Y.Map) {
+    const next = isPlainObject(value) ? value : {};
+    for (const key of Array.from(target.keys())) {
+      if (next[key] === undefined) target.delete(key);
+    }
+    for (const [key, item] of Object.entries(next)) {
+      if (item !== undefined) writeEntry(target, key, item);
+    }
+    return;
+  }
+
+  const next = Array.isArray(value) ? value : [];
+  const prev = target.toArray();
+  let start = 0;
+  while (
+    start < prev.length &&
+    start < next.length &&
+    isEqualData(toJSON(prev[start]), next[start])
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < prev.length - start &&
+    end < next.length - start &&
+    isEqualData(toJSON(prev[prev.length - 1 - end]), next[next.length - 1 - end])
+  ) {
+    end++;
+  }
+  const removed = prev.length - start - end;
+  const inserted = next.slice(start, next.length - end);
+  if (removed === inserted.length) {
+    inserted.forEach((item, index) => writeEntry(target, start + index, item));
+  } else {
+    target.delete(start, removed);
+    target.insert(start, inserted.map(toY));
+  }
+}
+
+function writeEntry(target: YContainer, key: string | number, value: unknown): void {
+  const current = target instanceof Y.Map ? target.get(String(key)) : target.get(Number(key));
+  if (isSameKind(current, value)) {
+    writeY(current, value);
+  } else if (!isEqualData(toJSON(current), value)) {
+    if (target instanceof Y.Map) {
+      target.set(String(key), toY(value));
+    } else {
+      target.delete(Number(key), 1);
+      target.insert(Number(key), [toY(value)]);
+    }
+  }
+}
+
+/**
+ * Creates a Legend-State Observable bound to a `Y.Map` or `Y.Array` in both directions:
+ * - writes to the Observable become one Yjs transaction, editing only what changed
+ * - Yjs updates, remote or local (e.g. `Y.UndoManager`), are diffed into the Observable, so only
+ *   observers of the changed paths are notified
+ *
+ * Nested maps and arrays are supported; plain objects and arrays written to the Observable are
+ * stored as nested `Y.Map`s and `Y.Array`s. The binding lasts for the lifetime of the document.
+ *
+ * @example
+ * ```ts
+ * const doc = new Y.Doc()
+ * const board$ = fromYjs<Board>(doc.getMap("board"))
+ *
+ * board$.columns[0].cards.push({ title: "Review" })
+ * const undoManager = new Y.UndoManager(doc.getMap("board"))
+ * ```
+ */
+export function fromYjs<T>(
+  // any: shared types are invariant in their item type
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  shared: Y.Map<any> | Y.Array<any>,
+  options: FromYjsOptions = {}
+): Observable<T> {
+  const { origin = null } = options;
+  const type: YContainer = shared;
+  const store$ = observable(type.toJSON()) as unknown as Observable<T>;
+
+  store$.onChange(({ value, changes }) => {
+    // Changes matching the shared type came from its events: nothing to write back
+    if (isEqualData(value, type.toJSON())) return;
+    const write = () => {
+      for (const { path } of changes) {
+        // Deepest shared type on the changed path whose new value is still of its kind
+        let target = type;
+        let targetValue: unknown = value;
+        for (const key of path) {
+          const child = target instanceof Y.Map ? target.get(key) : target.get(Number(key));
+          const childValue = (targetValue as Record<string, unknown>)[key];
+          if (!isSameKind(child, childValue)) break;
+          target = child;
+          targetValue = childValue;
+        }
+        writeY(target, targetValue);
+      }
+    };
+    if (type.doc) type.doc.transact(write, origin);
+    else write();
+  });
+
+  type.observeDeep((events) => {
+    batch(() => {
+      for (const event of events) {
+        let target$ = store$ as unknown as Observable<unknown>;
+        for (const key of event.path) {
+          target$ = (target$ as unknown as Record<string | number, Observable<unknown>>)[key];
+        }
+        reconcileData(target$, event.target.toJSON());
+      }
+    });
+  });
+
+  return store$;
+}
@@ -0,0 +1,3 @@
+export { fromYjs } from "./fromYjs";
+
+export type { FromYjsOptions } from "./fromYjs";
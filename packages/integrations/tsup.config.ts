@@ -1,10 +1,21 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // One entry per optional peer, so the root entry does not import it
+  entry: {
+    index: "src/index.ts",
+    "react-query": "src/react-query/index.ts",
+    "tanstack-table": "src/tanstack-table/index.ts",
+    "tanstack-virtual": "src/tanstack-virtual/index.ts",
+    rxjs: "src/rxjs/index.ts",
+    xstate: "src/xstate/index.ts",
+    yjs: "src/yjs/index.ts",
+    "floating-ui": "src/floating-ui/index.ts",
+  },
   format: ["esm", "cjs"],
   dts: true,
   sourcemap: true,
   clean: true,
-  splitting: false,
+  // Shared modules (e.g. the QueryClient context) go into chunks instead of one copy per entry
+  splitting: true,
 });